@@ -0,0 +1,245 @@
+import ts from "typescript";
+import { SemanticNaming } from "./semantic-naming.js";
+import type { EnumInfo, EnumValue } from "./types.js";
+import { getEnumValueKind } from "./values.js";
+
+/**
+ * Extracts enum information by walking the TypeScript syntax tree of a
+ * generated types file, so property paths follow the real type structure
+ */
+export class AstEnumExtractor {
+  private readonly semanticNaming = new SemanticNaming();
+
+  extractEnums(content: string): EnumInfo[] {
+    const sourceFile = ts.createSourceFile(
+      "types.gen.ts",
+      content,
+      ts.ScriptTarget.Latest,
+      false,
+      ts.ScriptKind.TS,
+    );
+    const standaloneEnums: EnumInfo[] = [];
+    const propertyEnums: EnumInfo[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isTypeAliasDeclaration(statement)) {
+        const typeName = statement.name.text;
+        const enumValues = this.extractEnumValues(statement.type);
+
+        if (enumValues.length > 0) {
+          standaloneEnums.push(
+            this.createEnumInfo(enumValues, `export type ${typeName}`),
+          );
+        }
+
+        this.visitTypeNode(statement.type, [typeName], propertyEnums);
+      } else if (ts.isInterfaceDeclaration(statement)) {
+        this.visitMembers(
+          statement.members,
+          [statement.name.text],
+          propertyEnums,
+        );
+      }
+    }
+
+    return [...standaloneEnums, ...propertyEnums];
+  }
+
+  private visitTypeNode(
+    typeNode: ts.TypeNode,
+    path: string[],
+    enums: EnumInfo[],
+  ): void {
+    const node = this.unwrapType(typeNode);
+
+    // Objects in arrays share the path of the array
+    const element = this.unwrapArray(node);
+    if (element !== node) {
+      this.visitTypeNode(element, path, enums);
+      return;
+    }
+
+    if (ts.isTypeLiteralNode(node)) {
+      this.visitMembers(node.members, path, enums);
+      return;
+    }
+
+    if (ts.isUnionTypeNode(node) || ts.isIntersectionTypeNode(node)) {
+      for (const member of node.types) {
+        this.visitTypeNode(member, path, enums);
+      }
+    }
+  }
+
+  private visitMembers(
+    members: ts.NodeArray<ts.TypeElement>,
+    path: string[],
+    enums: EnumInfo[],
+  ): void {
+    for (const member of members) {
+      // The values of a map share the path of the map
+      if (ts.isIndexSignatureDeclaration(member)) {
+        this.visitIndexSignature(member, path, enums);
+        continue;
+      }
+
+      if (!ts.isPropertySignature(member) || !member.type) {
+        continue;
+      }
+
+      const propertyName = this.getPropertyName(member.name);
+      if (!propertyName) {
+        continue;
+      }
+
+      const propertyPath = [...path, propertyName];
+      const enumValues = this.extractEnumValues(member.type);
+
+      if (enumValues.length > 0) {
+        enums.push(this.createEnumInfo(enumValues, propertyPath.join(".")));
+        continue;
+      }
+
+      this.visitTypeNode(member.type, propertyPath, enums);
+    }
+  }
+
+  private visitIndexSignature(
+    member: ts.IndexSignatureDeclaration,
+    path: string[],
+    enums: EnumInfo[],
+  ): void {
+    const enumValues = this.extractEnumValues(member.type);
+
+    if (enumValues.length > 0) {
+      const originalTypePath =
+        path.length === 1 ? `export type ${path[0]}` : path.join(".");
+      enums.push(this.createEnumInfo(enumValues, originalTypePath));
+      return;
+    }
+
+    this.visitTypeNode(member.type, path, enums);
+  }
+
+  private extractEnumValues(typeNode: ts.TypeNode): EnumValue[] {
+    const node = this.unwrapArray(this.unwrapNullable(typeNode));
+    const values: Set<EnumValue> = new Set();
+
+    if (!ts.isUnionTypeNode(node)) {
+      return [];
+    }
+
+    for (const member of node.types) {
+      const literal = this.unwrapType(member);
+      if (ts.isLiteralTypeNode(literal)) {
+        const value = this.getLiteralValue(literal.literal);
+        if (value !== undefined) {
+          values.add(value);
+        }
+      }
+    }
+
+    return Array.from(values);
+  }
+
+  private getLiteralValue(
+    literal: ts.LiteralTypeNode["literal"],
+  ): EnumValue | undefined {
+    if (
+      ts.isStringLiteral(literal) ||
+      ts.isNoSubstitutionTemplateLiteral(literal)
+    ) {
+      return literal.text;
+    }
+    if (ts.isNumericLiteral(literal)) {
+      return Number(literal.text);
+    }
+    if (
+      ts.isPrefixUnaryExpression(literal) &&
+      literal.operator === ts.SyntaxKind.MinusToken &&
+      ts.isNumericLiteral(literal.operand)
+    ) {
+      return -Number(literal.operand.text);
+    }
+    if (literal.kind === ts.SyntaxKind.TrueKeyword) {
+      return true;
+    }
+    if (literal.kind === ts.SyntaxKind.FalseKeyword) {
+      return false;
+    }
+    return undefined;
+  }
+
+  private unwrapType(typeNode: ts.TypeNode): ts.TypeNode {
+    let node = typeNode;
+    while (ts.isParenthesizedTypeNode(node)) {
+      node = node.type;
+    }
+    return node;
+  }
+
+  /**
+   * The array in a union whose other members are `null` and `undefined`,
+   * e.g. in `Array<'a' | 'b'> | null`
+   */
+  private unwrapNullable(typeNode: ts.TypeNode): ts.TypeNode {
+    const node = this.unwrapType(typeNode);
+    if (!ts.isUnionTypeNode(node)) {
+      return node;
+    }
+
+    const members = node.types.filter(
+      (member) =>
+        member.kind !== ts.SyntaxKind.UndefinedKeyword &&
+        !(
+          ts.isLiteralTypeNode(member) &&
+          member.literal.kind === ts.SyntaxKind.NullKeyword
+        ),
+    );
+    if (members.length !== 1) {
+      return node;
+    }
+    const member = this.unwrapType(members[0]);
+    return this.unwrapArray(member) === member ? node : member;
+  }
+
+  private unwrapArray(typeNode: ts.TypeNode): ts.TypeNode {
+    if (ts.isArrayTypeNode(typeNode)) {
+      return this.unwrapType(typeNode.elementType);
+    }
+
+    if (
+      ts.isTypeReferenceNode(typeNode) &&
+      ts.isIdentifier(typeNode.typeName) &&
+      ["Array", "ReadonlyArray"].includes(typeNode.typeName.text) &&
+      typeNode.typeArguments?.length === 1
+    ) {
+      return this.unwrapType(typeNode.typeArguments[0]);
+    }
+
+    return typeNode;
+  }
+
+  private getPropertyName(name: ts.PropertyName): string | null {
+    if (
+      ts.isIdentifier(name) ||
+      ts.isStringLiteral(name) ||
+      ts.isNumericLiteral(name)
+    ) {
+      return name.text;
+    }
+    return null;
+  }
+
+  private createEnumInfo(
+    enumValues: EnumValue[],
+    originalTypePath: string,
+  ): EnumInfo {
+    return {
+      name: this.semanticNaming.generateName(enumValues, originalTypePath),
+      values: enumValues,
+      originalTypePath,
+      valueKind: getEnumValueKind(enumValues),
+    };
+  }
+}
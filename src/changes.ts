@@ -0,0 +1,94 @@
+import type {
+  EnumChanges,
+  EnumValue,
+  NamingLock,
+  NamingLockEntry,
+} from "./types.js";
+import { formatEnumValue, getValueSetKey } from "./values.js";
+
+/**
+ * Compares the arrays recorded in two naming locks. An array missing by name
+ * counts as renamed when a new array has its value set or, failing that, one
+ * of its source paths.
+ */
+export function diffNamingLocks(
+  previous: NamingLock,
+  next: NamingLock,
+): EnumChanges {
+  const changes: EnumChanges = {
+    addedArrays: [],
+    removedArrays: [],
+    renamedArrays: [],
+    addedValues: [],
+    removedValues: [],
+  };
+  const previousNames = new Set(previous.arrays.map((entry) => entry.name));
+  const unmatched = next.arrays.filter(
+    (entry) => !previousNames.has(entry.name),
+  );
+
+  for (const entry of previous.arrays) {
+    let successor = next.arrays.find((other) => other.name === entry.name);
+    if (!successor) {
+      successor = findSuccessor(entry, unmatched);
+      if (!successor) {
+        changes.removedArrays.push(entry.name);
+        continue;
+      }
+      unmatched.splice(unmatched.indexOf(successor), 1);
+      changes.renamedArrays.push({ from: entry.name, to: successor.name });
+    }
+
+    const removed = difference(entry.values, successor.values);
+    const added = difference(successor.values, entry.values);
+    if (removed.length > 0) {
+      changes.removedValues.push({ name: successor.name, values: removed });
+    }
+    if (added.length > 0) {
+      changes.addedValues.push({ name: successor.name, values: added });
+    }
+  }
+
+  changes.addedArrays = unmatched.map((entry) => entry.name);
+  return changes;
+}
+
+/**
+ * One line per change, breaking changes first
+ */
+export function formatEnumChanges(changes: EnumChanges): string[] {
+  const list = (values: EnumValue[]) => values.map(formatEnumValue).join(", ");
+
+  return [
+    ...changes.removedValues.map(
+      ({ name, values }) => `removed ${list(values)} from ${name}`,
+    ),
+    ...changes.removedArrays.map((name) => `removed ${name}`),
+    ...changes.renamedArrays.map(({ from, to }) => `renamed ${from} to ${to}`),
+    ...changes.addedValues.map(
+      ({ name, values }) => `added ${list(values)} to ${name}`,
+    ),
+    ...changes.addedArrays.map((name) => `added ${name}`),
+  ];
+}
+
+function findSuccessor(
+  entry: NamingLockEntry,
+  candidates: NamingLockEntry[],
+): NamingLockEntry | undefined {
+  const valueSet = getValueSetKey(entry.values);
+  return (
+    candidates.find((other) => getValueSetKey(other.values) === valueSet) ??
+    candidates.find((other) =>
+      other.sourcePaths.some((path) => entry.sourcePaths.includes(path)),
+    )
+  );
+}
+
+/**
+ * Values missing from `others`
+ */
+function difference(values: EnumValue[], others: EnumValue[]): EnumValue[] {
+  const keys = new Set(others.map((value) => JSON.stringify(value)));
+  return values.filter((value) => !keys.has(JSON.stringify(value)));
+}
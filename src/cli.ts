@@ -0,0 +1,348 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { createClient } from "@hey-api/openapi-ts";
+import type { EnumKeyCase } from "./enum-keys.js";
+import { EnumParseError, MissingInputError } from "./errors.js";
+import { type LogLevel, type Logger, resolveLogger } from "./logger.js";
+import { EnumParser, type EnumParserMode } from "./parser.js";
+import { generateEnumOutput, writeEnumOutput } from "./plugin.js";
+import { SpecEnumParser } from "./spec-parser.js";
+import type {
+  Config,
+  EnumInfo,
+  EnumValueOrder,
+  OutputStrategy,
+  PluralizationOptions,
+  ValidatorLibrary,
+} from "./types.js";
+
+const USAGE = `Usage: openapi-enum-arrays generate --input <path> --out <path> [options]
+
+Reads enums from an OpenAPI document (JSON, YAML or URL) or from a generated
+types file (.ts) and writes the enum arrays module.
+
+Options:
+  --input <path>                OpenAPI document or types file
+  --out <path>                  Module to write, e.g. src/enums.ts, or the
+                                directory for multi-file output strategies
+  --check                       Exit with 1 instead of writing when the files
+                                on disk are out of date
+  --import-file-extension <ext> Extension of relative imports, e.g. .js
+  --types-parser <mode>         ast | line (default: ast)
+  --include <pattern>           Only keep matching enums, repeatable
+  --exclude <pattern>           Drop matching enums, repeatable
+  --array-prefix <prefix>       Prefix for array names
+  --pluralization <strategy>    auto | plural | Values | List | none
+  --override <path=name>        Exact array name for a path, repeatable
+  --value-order <order>         spec | alphabetical | natural
+  --enum-objects                Emit frozen enum objects
+  --enum-object-key-case <case> PascalCase | SCREAMING_SNAKE_CASE
+  --type-guards                 Emit element types and is… guards
+  --assertions                  Emit assert… and parse… helpers
+  --type-checks                 Emit checks against the types file input
+  --output-strategy <strategy>  single | tag | schema | operation
+  --labels                      Write a labels module per enum
+  --labels-directory <path>     Directory of the labels modules
+  --validators <library>        zod | valibot
+  --validators-output <output>  inline | separate
+  --json                        Write enums.json
+  --json-schema                 Write enums.schema.json
+  --report                      Write enums.report.json
+  --naming-lock <path>          Keep names stable with a lockfile
+  --relock                      Derive every name afresh
+  --fail-on-breaking            Fail when a value was removed
+  --log-level <level>           silent | error | warn | info | debug
+                                (default: info)
+  --debug                       Log every enum, same as --log-level debug
+  -h, --help                    Show this message`;
+
+const CLI_OPTIONS = {
+  input: { type: "string" },
+  out: { type: "string" },
+  check: { type: "boolean" },
+  "import-file-extension": { type: "string" },
+  "types-parser": { type: "string" },
+  include: { type: "string", multiple: true },
+  exclude: { type: "string", multiple: true },
+  "array-prefix": { type: "string" },
+  pluralization: { type: "string" },
+  override: { type: "string", multiple: true },
+  "value-order": { type: "string" },
+  "enum-objects": { type: "boolean" },
+  "enum-object-key-case": { type: "string" },
+  "type-guards": { type: "boolean" },
+  assertions: { type: "boolean" },
+  "type-checks": { type: "boolean" },
+  "output-strategy": { type: "string" },
+  labels: { type: "boolean" },
+  "labels-directory": { type: "string" },
+  validators: { type: "string" },
+  "validators-output": { type: "string" },
+  json: { type: "boolean" },
+  "json-schema": { type: "boolean" },
+  report: { type: "boolean" },
+  "naming-lock": { type: "string" },
+  relock: { type: "boolean" },
+  "fail-on-breaking": { type: "boolean" },
+  "log-level": { type: "string" },
+  debug: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+interface CliCommand {
+  input: string;
+  out: string;
+  check: boolean;
+  config: Omit<Config, "name">;
+}
+
+class UsageError extends Error {}
+
+/**
+ * Runs the `openapi-enum-arrays` command and resolves to its exit code:
+ * 1 when generation fails or `--check` finds stale files, 2 on bad usage
+ */
+export async function runCli(args: string[]): Promise<number> {
+  let command: CliCommand | undefined;
+  try {
+    command = parseCommand(args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (!command) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    return await generate(command);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`openapi-enum-arrays: ${message}`);
+    return 1;
+  }
+}
+
+async function generate({
+  input,
+  out,
+  check,
+  config,
+}: CliCommand): Promise<number> {
+  const outputPath = dirname(resolve(out));
+  const logger = resolveLogger(config.logger);
+  const parsedEnums = await readEnums(input, config.typesParser, logger);
+  const enumOutput = generateEnumOutput(
+    parsedEnums,
+    config,
+    outputPath,
+    logger,
+    {
+      // Relative to the output path, like the `types.gen` module of openapi-ts
+      typesImportPath: `./${relative(outputPath, resolve(input)).replace(/\.[cm]?ts$/, "")}`,
+      // An OpenAPI document leaves no types module to check the arrays against
+      ...(!isTypesFile(input) && { sourceTypeNames: [] }),
+    },
+  );
+  const { files, enums, staleFiles } = enumOutput;
+
+  if (check) {
+    const stale = [
+      ...files
+        .filter(
+          (file) =>
+            !existsSync(file.path) ||
+            readFileSync(file.path, "utf-8") !== file.content,
+        )
+        .map((file) => file.path),
+      ...staleFiles,
+    ];
+    if (stale.length > 0) {
+      logger.error(
+        `openapi-enum-arrays: Out of date, run without --check to update:\n${stale
+          .map((path) => `  - ${relative(process.cwd(), path)}`)
+          .join("\n")}`,
+      );
+      return 1;
+    }
+    logger.info(`openapi-enum-arrays: ${files.length} files up to date`);
+    return 0;
+  }
+
+  writeEnumOutput(enumOutput, logger);
+  logger.info(
+    `openapi-enum-arrays: Generated ${enums.length} enum arrays at ${out}`,
+  );
+  return 0;
+}
+
+/**
+ * `undefined` when help was requested
+ */
+function parseCommand(args: string[]): CliCommand | undefined {
+  const { values, positionals } = parseArgs({
+    args,
+    options: CLI_OPTIONS,
+    allowPositionals: true,
+  });
+
+  if (values.help) {
+    return undefined;
+  }
+  if (positionals[0] !== "generate" || positionals.length > 1) {
+    throw new UsageError(
+      positionals[0]
+        ? `Unknown command: ${positionals.join(" ")}`
+        : "Missing command",
+    );
+  }
+  if (!values.input || !values.out) {
+    throw new UsageError("--input and --out are required");
+  }
+  if (values["type-checks"] && !isTypesFile(values.input)) {
+    throw new UsageError("--type-checks needs a types file as --input");
+  }
+
+  const overrides = values.override?.map((entry) => {
+    const separator = entry.lastIndexOf("=");
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new UsageError(`--override expects path=name, got "${entry}"`);
+    }
+    return [entry.slice(0, separator), entry.slice(separator + 1)] as const;
+  });
+
+  return {
+    input: values.input,
+    out: values.out,
+    check: values.check ?? false,
+    config: {
+      output: values.out.replace(/\.ts$/, "").split(/[\\/]/).pop(),
+      importFileExtension: values["import-file-extension"],
+      typesParser: oneOf<EnumParserMode>("types-parser", values, [
+        "ast",
+        "line",
+      ]),
+      includePatterns: values.include,
+      excludePatterns: values.exclude,
+      arrayPrefix: values["array-prefix"],
+      pluralization: values.pluralization
+        ? {
+            strategy: oneOf<NonNullable<PluralizationOptions["strategy"]>>(
+              "pluralization",
+              values,
+              ["auto", "plural", "Values", "List", "none"],
+            ),
+          }
+        : undefined,
+      overrides: overrides && Object.fromEntries(overrides),
+      valueOrder: oneOf<Extract<EnumValueOrder, string>>(
+        "value-order",
+        values,
+        ["spec", "alphabetical", "natural"],
+      ),
+      generateEnumObjects: values["enum-objects"],
+      enumObjectKeyCase: oneOf<EnumKeyCase>("enum-object-key-case", values, [
+        "PascalCase",
+        "SCREAMING_SNAKE_CASE",
+      ]),
+      generateTypeGuards: values["type-guards"],
+      generateAssertions: values.assertions,
+      generateTypeChecks: values["type-checks"],
+      outputStrategy: oneOf<OutputStrategy>("output-strategy", values, [
+        "single",
+        "tag",
+        "schema",
+        "operation",
+      ]),
+      generateLabels: values.labels,
+      labelsDirectory: values["labels-directory"],
+      validators: oneOf<ValidatorLibrary>("validators", values, [
+        "zod",
+        "valibot",
+      ]),
+      validatorsOutput: oneOf<"inline" | "separate">(
+        "validators-output",
+        values,
+        ["inline", "separate"],
+      ),
+      generateJson: values.json,
+      generateJsonSchema: values["json-schema"],
+      generateReport: values.report,
+      namingLock: values["naming-lock"],
+      relockNames: values.relock,
+      failOnBreaking: values["fail-on-breaking"],
+      logger:
+        oneOf<LogLevel>("log-level", values, [
+          "silent",
+          "error",
+          "warn",
+          "info",
+          "debug",
+        ]) ?? (values.debug ? "debug" : undefined),
+      debug: values.debug,
+    },
+  };
+}
+
+function oneOf<T extends string>(
+  flag: string,
+  values: Record<string, unknown>,
+  allowed: T[],
+): T | undefined {
+  const value = values[flag];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(
+      `--${flag} must be one of ${allowed.join(", ")}, got "${String(value)}"`,
+    );
+  }
+  return value as T;
+}
+
+async function readEnums(
+  input: string,
+  typesParser: EnumParserMode | undefined,
+  logger: Logger,
+): Promise<EnumInfo[]> {
+  if (isTypesFile(input)) {
+    if (!existsSync(input)) {
+      throw new MissingInputError(`Input not found: ${input}`, input);
+    }
+    const parser = new EnumParser({ mode: typesParser, logger });
+    return parser.parseEnumsFromTypeFile(readFileSync(input, "utf-8"));
+  }
+
+  // `dryRun` writes nothing, but openapi-ts still empties the output path
+  // unless `clean` is off, so point it at a scratch directory as well
+  const scratch = mkdtempSync(join(tmpdir(), "openapi-enum-arrays-"));
+  let context;
+  try {
+    [context] = await createClient({
+      input,
+      output: { clean: false, path: scratch },
+      dryRun: true,
+      plugins: ["@hey-api/typescript"],
+      logs: { file: false, level: "silent" },
+    });
+  } finally {
+    rmSync(scratch, { force: true, recursive: true });
+  }
+  if (!context || !("ir" in context)) {
+    throw new EnumParseError(
+      `Could not parse the OpenAPI document at ${input}`,
+      input,
+    );
+  }
+  return new SpecEnumParser().parseEnumsFromSpec(context.ir);
+}
+
+function isTypesFile(input: string): boolean {
+  return /\.[cm]?ts$/.test(input);
+}
@@ -1,6 +1,6 @@
 import type { Plugin } from "@hey-api/openapi-ts";
-import { handler } from "./plugin";
-import type { Config } from "./types";
+import { handler } from "./plugin.js";
+import type { Config } from "./types.js";
 
 export const defaultConfig: Plugin.Config<Config> = {
   _dependencies: ["@hey-api/typescript"],
@@ -9,7 +9,10 @@ export const defaultConfig: Plugin.Config<Config> = {
   name: "enum-arrays",
   output: "enums.gen",
   debug: false,
+  source: "spec",
+  typesParser: "ast",
   arrayPrefix: "",
+  generateEnumObjects: false,
 };
 
 /**
@@ -0,0 +1,72 @@
+import type { EnumValue } from "./types.js";
+
+export type EnumKeyCase = "PascalCase" | "SCREAMING_SNAKE_CASE";
+
+/**
+ * Derives object keys for enum values, e.g. `in_progress` -> `InProgress`
+ */
+export class EnumKeyGenerator {
+  constructor(private readonly keyCase: EnumKeyCase = "PascalCase") {}
+
+  /**
+   * Generate one key per value, preferring the matching entry of `names`
+   * (e.g. from `x-enum-varnames`). Values that normalise to the same key get
+   * a numeric suffix in order of appearance.
+   */
+  generateKeys(
+    values: EnumValue[],
+    names: (string | undefined)[] = [],
+  ): string[] {
+    const usedKeys = new Set<string>();
+
+    return values.map((value, index) => {
+      const baseKey = this.toKey(names[index] || value);
+      let key = baseKey;
+      let counter = 2;
+
+      while (usedKeys.has(key)) {
+        key = `${baseKey}${this.keyCase === "PascalCase" ? "" : "_"}${counter}`;
+        counter++;
+      }
+
+      usedKeys.add(key);
+      return key;
+    });
+  }
+
+  private toKey(value: EnumValue): string {
+    const words = this.splitWords(value);
+
+    if (words.length === 0) {
+      words.push("empty");
+    }
+
+    const key =
+      this.keyCase === "PascalCase"
+        ? words.map((word) => this.capitalizeFirst(word)).join("")
+        : words.map((word) => word.toUpperCase()).join("_");
+
+    return /^\d/.test(key) ? `_${key}` : key;
+  }
+
+  private splitWords(value: EnumValue): string[] {
+    const text =
+      typeof value === "number"
+        ? `${value < 0 ? "minus " : ""}${Math.abs(value)}`.replace(
+            ".",
+            " point ",
+          )
+        : String(value);
+
+    return text
+      .replace(/([\p{Ll}\p{Nd}])(\p{Lu})/gu, "$1 $2")
+      .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, "$1 $2")
+      .split(/[^\p{L}\p{Nd}]+/u)
+      .filter(Boolean)
+      .map((word) => word.toLowerCase());
+  }
+
+  private capitalizeFirst(str: string): string {
+    return str.charAt(0).toUpperCase() + str.slice(1);
+  }
+}
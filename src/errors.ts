@@ -0,0 +1,60 @@
+import type { EnumValueChange } from "./types.js";
+
+/**
+ * Base class of the failures thrown with `strict` and passed to `onError`
+ */
+export class EnumArraysError extends Error {
+  /**
+   * File, type path or config key the failure is about
+   */
+  readonly path: string;
+
+  constructor(message: string, path: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+    this.path = path;
+  }
+}
+
+/**
+ * The types file, the output path or the CLI input does not exist
+ */
+export class MissingInputError extends EnumArraysError {}
+
+/**
+ * The types file, OpenAPI document or naming lockfile could not be read
+ */
+export class EnumParseError extends EnumArraysError {}
+
+/**
+ * No unique or legal name could be found for the enum at `path`
+ */
+export class NamingConflictError extends EnumArraysError {
+  readonly names: string[];
+
+  constructor(message: string, path: string, names: string[]) {
+    super(message, path);
+    this.names = names;
+  }
+}
+
+/**
+ * A generated file could not be written
+ */
+export class WriteError extends EnumArraysError {}
+
+/**
+ * Thrown with `failOnBreaking` when values were removed from arrays that are
+ * still generated. `path` is the naming lockfile.
+ */
+export class BreakingEnumChangeError extends EnumArraysError {
+  readonly removedValues: EnumValueChange[];
+
+  constructor(removedValues: EnumValueChange[], path: string) {
+    super(
+      `Plugin: Values were removed from ${removedValues.map((change) => change.name).join(", ")}`,
+      path,
+    );
+    this.removedValues = removedValues;
+  }
+}
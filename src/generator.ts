@@ -1,32 +1,780 @@
-import type { EnumInfo } from "./types";
+import { createHash } from "node:crypto";
+import { posix } from "node:path";
+import { type EnumKeyCase, EnumKeyGenerator } from "./enum-keys.js";
+import { NamingConflictError } from "./errors.js";
+import { toIdentifier } from "./identifiers.js";
+import { toEnumLabel } from "./labels.js";
+import { createLogger, type Logger } from "./logger.js";
+import { EnumMatcher } from "./patterns.js";
+import { Pluralizer } from "./pluralize.js";
+import type {
+  EnumInfo,
+  EnumNamingHook,
+  EnumValue,
+  EnumValueMetadata,
+  EnumValueOrder,
+  GenerationReport,
+  GenerationReportRename,
+  NamingLock,
+  NamingLockEntry,
+  OutputStrategy,
+  PluralizationOptions,
+  ValidatorLibrary,
+} from "./types.js";
+import {
+  compareEnumValues,
+  compareEnumValuesNaturally,
+  formatEnumValue,
+  getValueSetKey,
+} from "./values.js";
 
 export interface GeneratorOptions {
   arrayPrefix?: string;
+  pluralization?: PluralizationOptions;
+  /**
+   * Exact array identifiers keyed by `originalTypePath` or, for standalone
+   * enums, schema name
+   */
+  overrides?: Record<string, string>;
+  /**
+   * Callback returning an array identifier, or `undefined` to keep the
+   * proposed one
+   */
+  naming?: EnumNamingHook;
+  /**
+   * @default 'spec'
+   */
+  valueOrder?: EnumValueOrder;
+  generateEnumObjects?: boolean;
+  enumObjectKeyCase?: EnumKeyCase;
+  /**
+   * Emit an element type alias and an `is…` type guard per array
+   */
+  generateTypeGuards?: boolean;
+  /**
+   * Emit `assert…` and `parse…` helpers that throw on unknown values.
+   * Implies `generateTypeGuards`.
+   */
+  generateAssertions?: boolean;
+  /**
+   * Import the source types and emit compile-time checks that every array
+   * matches the type it was extracted from
+   */
+  generateTypeChecks?: boolean;
+  /**
+   * Module the source types are imported from when `generateTypeChecks` is set
+   * @default './types.gen'
+   */
+  typesImportPath?: string;
+  /**
+   * Types the types module exports. When set, enums whose source type is not
+   * among them get no type check.
+   */
+  sourceTypeNames?: string[];
+  /**
+   * Appended to relative imports between generated modules and of the source
+   * types, e.g. `.js` for Node ESM
+   * @default ''
+   */
+  importFileExtension?: string;
+  /**
+   * Path of the enum arrays module relative to the output directory, without
+   * extension
+   * @default 'enums.gen'
+   */
+  output?: string;
+  /**
+   * With a strategy other than `single`, `output` becomes a directory of
+   * modules plus a barrel `index`
+   * @default 'single'
+   */
+  outputStrategy?: OutputStrategy;
+  /**
+   * Write a labels module per enum, see `generateFiles`
+   */
+  generateLabels?: boolean;
+  /**
+   * Directory of the labels modules relative to the output directory
+   * @default 'labels'
+   */
+  labelsDirectory?: string;
+  /**
+   * Emit a validation schema per enum built from its array
+   */
+  validators?: ValidatorLibrary;
+  /**
+   * Where validation schemas go: the enum module, or a sibling
+   * `<module>.validators` module
+   * @default 'inline'
+   */
+  validatorsOutput?: "inline" | "separate";
+  /**
+   * Write `enums.json`, a map of array name to values and source paths
+   */
+  generateJson?: boolean;
+  /**
+   * Write `enums.schema.json`, a JSON Schema document with one `$defs` entry
+   * per array
+   */
+  generateJsonSchema?: boolean;
+  /**
+   * Names from an earlier run to keep for enums with the same value set or
+   * source path
+   */
+  namingLock?: NamingLock;
 }
 
+export interface GenerationResult {
+  files: GeneratedFile[];
+  /**
+   * `filtered` is left empty, filtering happens before generation
+   */
+  report: GenerationReport;
+  /**
+   * Names of this run, to pass as `namingLock` next time
+   */
+  lock: NamingLock;
+}
+
+export interface GeneratedFile {
+  /**
+   * Path relative to the output directory, without extension
+   */
+  path: string;
+  extension: ".ts" | ".json";
+  content: string;
+}
+
+/**
+ * Exported names generated for a single enum
+ */
+interface EnumIdentifiers {
+  arrayName: string;
+  objectName: string;
+  typeName: string;
+  labelsName: string;
+  schemaName: string;
+}
+
+// Namespace each validator library is imported as
+const VALIDATOR_IMPORTS: Record<
+  ValidatorLibrary,
+  { namespace: string; statement: string }
+> = {
+  zod: { namespace: "z", statement: "import { z } from 'zod'" },
+  valibot: { namespace: "v", statement: "import * as v from 'valibot'" },
+};
+
+/**
+ * Deduplicated enums with their identifiers and the paths of all enums
+ * merged into them, aligned by index
+ */
+interface PreparedEnums {
+  enums: EnumInfo[];
+  identifiers: EnumIdentifiers[];
+  sourcePaths: string[][];
+  report: GenerationReport;
+}
+
+/**
+ * Decisions taken by `deduplicateEnums`, for the generation report
+ */
+interface DeduplicationAudit {
+  /**
+   * Paths renamed because enums with different values shared a name
+   */
+  conflictingPaths: Set<string>;
+  /**
+   * Why the kept enum was chosen, for every merge
+   */
+  mergeReasons: Map<EnumInfo, string>;
+}
+
+/**
+ * Enums written to one module, by index into the prepared enums
+ */
+interface EnumModule {
+  path: string;
+  indices: number[];
+}
+
+/**
+ * First line of every generated module
+ */
+export const GENERATED_FILE_HEADER =
+  "// This file is auto-generated by openapi-enum-arrays";
+
+// Module of enums without a tag, operation or schema
+const SHARED_MODULE = "shared";
+
+const SOURCE_TYPES_NAMESPACE = "EnumArraysSourceTypes";
+
+// Identifiers declared by the type-check preamble and assertions
+const TYPE_CHECK_IDENTIFIERS = [
+  SOURCE_TYPES_NAMESPACE,
+  "EnumArraysMember",
+  "EnumArraysExact",
+  "EnumArraysAssert",
+  "EnumArraysTypeChecks",
+];
+
+// Words pluralised by the `auto` strategy
+const AUTO_PLURAL_WORDS = ["Status", "Type", "Model", "Role", "Source", "Mode"];
+
 export class CodeGenerator {
+  private readonly matcher = new EnumMatcher();
+
+  constructor(private readonly logger: Logger = createLogger("silent")) {}
+
   generateEnumArrays(
     enums: EnumInfo[],
     options: GeneratorOptions = {},
   ): string {
-    const { arrayPrefix = "" } = options;
+    const { enums: preparedEnums, identifiers } = this.prepareEnums(
+      enums,
+      options,
+    );
+    return this.generateEnumModule(preparedEnums, identifiers, options);
+  }
+
+  /**
+   * Generates the enum modules for the `outputStrategy` (plus a barrel when
+   * there are several) and, with `generateLabels`, one labels module per enum
+   */
+  generateFiles(
+    enums: EnumInfo[],
+    options: GeneratorOptions = {},
+  ): GeneratedFile[] {
+    return this.generate(enums, options).files;
+  }
+
+  /**
+   * Like `generateFiles`, also returning a report of merges and renames
+   */
+  generate(
+    enums: EnumInfo[],
+    options: GeneratorOptions = {},
+  ): GenerationResult {
+    const {
+      outputStrategy = "single",
+      generateLabels = false,
+      generateJson = false,
+      generateJsonSchema = false,
+    } = options;
+    const prepared = this.prepareEnums(enums, options);
+    const { enums: preparedEnums, identifiers } = prepared;
+    const modules = this.groupIntoModules(preparedEnums, options);
+    const files: GeneratedFile[] = modules.map(({ path, indices }) => ({
+      path,
+      extension: ".ts",
+      content: this.generateEnumModule(
+        indices.map((index) => preparedEnums[index]),
+        indices.map((index) => identifiers[index]),
+        options,
+        path,
+      ),
+    }));
+
+    if (outputStrategy !== "single") {
+      files.push(
+        this.generateBarrel(modules, preparedEnums, identifiers, options),
+      );
+    }
+
+    if (generateLabels) {
+      for (const { path, indices } of modules) {
+        files.push(
+          ...indices.map((index) =>
+            this.generateLabelsModule(
+              preparedEnums[index],
+              identifiers[index],
+              options,
+              path,
+            ),
+          ),
+        );
+      }
+    }
 
-    const deduplicatedEnums = this.deduplicateEnums(enums);
-    const header = this.generateHeader();
-    const arrays = this.generateArrayConstants(deduplicatedEnums, arrayPrefix);
+    if (options.validators && options.validatorsOutput === "separate") {
+      files.push(
+        ...modules.map(({ path, indices }) =>
+          this.generateValidatorsModule(
+            options.validators!,
+            indices.map((index) => preparedEnums[index]),
+            indices.map((index) => identifiers[index]),
+            options,
+            path,
+          ),
+        ),
+      );
+    }
+
+    if (generateJson) {
+      files.push(this.generateJsonCatalogue(prepared, options));
+    }
 
-    return [header, arrays].filter(Boolean).join("\n\n");
+    if (generateJsonSchema) {
+      files.push(this.generateJsonSchemaDocument(prepared, options));
+    }
+
+    return {
+      files,
+      report: prepared.report,
+      lock: this.createNamingLock(prepared, options),
+    };
   }
 
-  private deduplicateEnums(enums: EnumInfo[]): EnumInfo[] {
+  private prepareEnums(
+    enums: EnumInfo[],
+    options: GeneratorOptions,
+  ): PreparedEnums {
+    const namedEnums = this.applyCustomNames(enums, options);
+    const audit: DeduplicationAudit = {
+      conflictingPaths: new Set(),
+      mergeReasons: new Map(),
+    };
+    const deduplicatedEnums = this.deduplicateEnums(namedEnums, audit);
+
+    // Deduplication merges every enum with the same value set
+    const pathsByValues = new Map<string, string[]>();
+    for (const enumInfo of namedEnums) {
+      const key = getValueSetKey(enumInfo.values);
+      const paths = pathsByValues.get(key) ?? [];
+      if (!paths.includes(enumInfo.originalTypePath)) {
+        paths.push(enumInfo.originalTypePath);
+      }
+      pathsByValues.set(key, paths);
+    }
+    const sourcePaths = deduplicatedEnums.map(
+      (enumInfo) => pathsByValues.get(getValueSetKey(enumInfo.values)) ?? [],
+    );
+
+    const locked = this.matchNamingLock(
+      deduplicatedEnums,
+      sourcePaths,
+      options.namingLock,
+    );
+    const identifiers = this.resolveIdentifiers(
+      deduplicatedEnums,
+      options,
+      locked,
+    );
+
+    const report = this.createReport(
+      namedEnums,
+      { enums: deduplicatedEnums, identifiers, sourcePaths },
+      { audit, locked },
+      options,
+    );
+
+    return { enums: deduplicatedEnums, identifiers, sourcePaths, report };
+  }
+
+  /**
+   * Locked identifiers per enum: an entry with the same value set wins over
+   * one sharing a source path, and each entry is used once. Enums named by
+   * `overrides` or `naming` keep that name.
+   */
+  private matchNamingLock(
+    enums: EnumInfo[],
+    sourcePaths: string[][],
+    lock: NamingLock | undefined,
+  ): (EnumIdentifiers | undefined)[] {
+    const entries = lock?.arrays ?? [];
+    const matches: (NamingLockEntry | undefined)[] = enums.map(() => undefined);
+    const claim = (
+      matchesEntry: (entry: NamingLockEntry, index: number) => boolean,
+    ) => {
+      for (const [index, enumInfo] of enums.entries()) {
+        if (matches[index] || enumInfo.arrayName) continue;
+        matches[index] = entries.find(
+          (entry) => !matches.includes(entry) && matchesEntry(entry, index),
+        );
+      }
+    };
+
+    const hasPath = (entry: NamingLockEntry, index: number) =>
+      entry.sourcePaths.some((path) => sourcePaths[index].includes(path));
+    const hasValues = (entry: NamingLockEntry, index: number) =>
+      getValueSetKey(entry.values) === getValueSetKey(enums[index].values);
+
+    // An entry stays with the enum at its source path, even when values were
+    // added or removed; the value set only finds enums whose path changed
+    claim((entry, index) => hasPath(entry, index) && hasValues(entry, index));
+    claim(hasPath);
+    claim(
+      (entry, index) =>
+        hasValues(entry, index) &&
+        !enums.some((_enumInfo, other) => hasPath(entry, other)),
+    );
+
+    return matches.map(
+      (entry) =>
+        entry && {
+          arrayName: entry.name,
+          objectName: entry.objectName,
+          typeName: entry.typeName,
+          labelsName: entry.labelsName,
+          schemaName: entry.schemaName,
+        },
+    );
+  }
+
+  private createNamingLock(
+    { enums, identifiers, sourcePaths }: Omit<PreparedEnums, "report">,
+    options: GeneratorOptions,
+  ): NamingLock {
+    const { valueOrder = "spec" } = options;
+    const arrays = enums
+      .map((enumInfo, index) => {
+        const { arrayName, ...names } = identifiers[index];
+        return {
+          name: arrayName,
+          ...names,
+          values: this.orderValues(enumInfo.values, valueOrder),
+          sourcePaths: [...sourcePaths[index]].sort(),
+        };
+      })
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    return { version: 1, arrays };
+  }
+
+  private createReport(
+    namedEnums: EnumInfo[],
+    { enums, identifiers, sourcePaths }: Omit<PreparedEnums, "report">,
+    {
+      audit,
+      locked,
+    }: {
+      audit: DeduplicationAudit;
+      locked: (EnumIdentifiers | undefined)[];
+    },
+    options: GeneratorOptions,
+  ): GenerationReport {
+    const { arrayPrefix = "", valueOrder = "spec" } = options;
+    const byName = <T extends { name: string }>(a: T, b: T) =>
+      a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+    const byPath = (
+      a: { originalTypePath: string },
+      b: { originalTypePath: string },
+    ) =>
+      a.originalTypePath < b.originalTypePath
+        ? -1
+        : a.originalTypePath > b.originalTypePath
+          ? 1
+          : 0;
+
+    const arrays = enums
+      .map((enumInfo, index) => {
+        const mergeReason = audit.mergeReasons.get(enumInfo);
+        return {
+          name: identifiers[index].arrayName,
+          values: this.orderValues(enumInfo.values, valueOrder),
+          sourcePaths: [...sourcePaths[index]].sort(),
+          ...(mergeReason && { mergeReason }),
+        };
+      })
+      .sort(byName);
+
+    const renames: GenerationReportRename[] = [];
+    for (const [index, enumInfo] of enums.entries()) {
+      const original = namedEnums.find(
+        (named) => named.originalTypePath === enumInfo.originalTypePath,
+      );
+      if (!original) continue;
+
+      const from =
+        original.arrayName ??
+        arrayPrefix + this.toArrayName(original.name, options);
+      const to = identifiers[index].arrayName;
+      if (from === to) continue;
+
+      const preferred = this.toIdentifiers(
+        enumInfo.name,
+        enumInfo.arrayName,
+        options,
+        enumInfo.originalTypePath,
+      ).arrayName;
+      const reason =
+        locked[index]?.arrayName === to
+          ? "locked"
+          : preferred !== to
+            ? "identifier-conflict"
+            : audit.conflictingPaths.has(enumInfo.originalTypePath)
+              ? "name-conflict"
+              : "invalid-identifier";
+
+      renames.push({
+        originalTypePath: enumInfo.originalTypePath,
+        from,
+        to,
+        reason,
+      });
+    }
+
+    return { arrays, renames: renames.sort(byPath), filtered: [] };
+  }
+
+  private generateEnumModule(
+    deduplicatedEnums: EnumInfo[],
+    identifiers: EnumIdentifiers[],
+    options: GeneratorOptions,
+    modulePath = options.output ?? "enums.gen",
+  ): string {
+    const { validators, validatorsOutput = "inline" } = options;
+    const validatorImport =
+      validators && validatorsOutput === "inline"
+        ? VALIDATOR_IMPORTS[validators].statement
+        : null;
+    const arrays = this.generateArrayConstants(
+      deduplicatedEnums,
+      identifiers,
+      options,
+    );
+
+    const typeChecks = options.generateTypeChecks
+      ? this.generateTypeChecks(
+          deduplicatedEnums,
+          identifiers,
+          options,
+          modulePath,
+        )
+      : null;
+
+    return this.withHeader([
+      validatorImport,
+      typeChecks?.preamble,
+      arrays,
+      typeChecks?.assertions,
+    ]);
+  }
+
+  /**
+   * Sibling module with the validation schemas of an enum module
+   */
+  private generateValidatorsModule(
+    library: ValidatorLibrary,
+    enums: EnumInfo[],
+    identifiers: EnumIdentifiers[],
+    options: GeneratorOptions,
+    modulePath: string,
+  ): GeneratedFile {
+    const { valueOrder = "spec" } = options;
+    const path = `${modulePath}.validators`;
+    const arrayNames = identifiers.map(({ arrayName }) => arrayName);
+    const schemas = enums.map((enumInfo, index) =>
+      this.generateValidator(
+        library,
+        identifiers[index],
+        this.orderValues(enumInfo.values, valueOrder),
+      ),
+    );
+    const imports = [
+      VALIDATOR_IMPORTS[library].statement,
+      ...(arrayNames.length > 0
+        ? [
+            `import { ${arrayNames.join(", ")} } from ${formatEnumValue(this.toImportPath(path, modulePath, options))}`,
+          ]
+        : []),
+    ].join("\n");
+
+    return {
+      path,
+      extension: ".ts",
+      content: this.withHeader([imports, schemas.join("\n")]),
+    };
+  }
+
+  /**
+   * Builds the schema from the array so values are not repeated. Strings use
+   * `z.enum` / `v.picklist` (numbers too for Valibot), anything else a union
+   * of literals indexing into the array.
+   */
+  private generateValidator(
+    library: ValidatorLibrary,
+    { arrayName, schemaName }: EnumIdentifiers,
+    values: EnumValue[],
+  ): string {
+    const { namespace } = VALIDATOR_IMPORTS[library];
+    const picklistable = values.every(
+      (value) =>
+        typeof value === "string" ||
+        (library === "valibot" && typeof value === "number"),
+    );
+
+    if (picklistable) {
+      const factory = library === "zod" ? "enum" : "picklist";
+      return `export const ${schemaName} = ${namespace}.${factory}(${arrayName})`;
+    }
+
+    const members = values.map((value, index) =>
+      value === null
+        ? `${namespace}.null()`
+        : `${namespace}.literal(${arrayName}[${index}])`,
+    );
+    const schema =
+      members.length === 1
+        ? members[0]
+        : `${namespace}.union([${members.join(", ")}])`;
+
+    return `export const ${schemaName} = ${schema}`;
+  }
+
+  private groupIntoModules(
+    enums: EnumInfo[],
+    options: GeneratorOptions,
+  ): EnumModule[] {
+    const { output = "enums.gen", outputStrategy = "single" } = options;
+
+    if (outputStrategy === "single") {
+      return [{ path: output, indices: enums.map((_, index) => index) }];
+    }
+
+    const modules = new Map<string, number[]>();
+    for (const [index, enumInfo] of enums.entries()) {
+      const fileName = this.toModuleFileName(
+        this.getModuleGroup(enumInfo, outputStrategy),
+      );
+      modules.set(fileName, [...(modules.get(fileName) ?? []), index]);
+    }
+
+    return [...modules]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([fileName, indices]) => ({
+        path: posix.join(output, fileName),
+        indices,
+      }));
+  }
+
+  private getModuleGroup(
+    enumInfo: EnumInfo,
+    outputStrategy: OutputStrategy,
+  ): string {
+    switch (outputStrategy) {
+      case "tag":
+        return enumInfo.tags?.[0] ?? SHARED_MODULE;
+      case "operation":
+        return enumInfo.operationId ?? SHARED_MODULE;
+      default:
+        return (
+          this.matcher.getSourceTypeName(enumInfo.originalTypePath) ??
+          SHARED_MODULE
+        );
+    }
+  }
+
+  private toModuleFileName(group: string): string {
+    const fileName = group
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((part, index) =>
+        index === 0
+          ? part.charAt(0).toLowerCase() + part.slice(1)
+          : this.capitalizeFirst(part),
+      )
+      .join("");
+
+    if (!fileName) {
+      return SHARED_MODULE;
+    }
+    // `index` is the barrel
+    return fileName === "index" ? "indexEnums" : fileName;
+  }
+
+  /**
+   * Re-exports every module by name, leaving out the type-check helpers
+   */
+  private generateBarrel(
+    modules: EnumModule[],
+    enums: EnumInfo[],
+    identifiers: EnumIdentifiers[],
+    options: GeneratorOptions,
+  ): GeneratedFile {
+    const { output = "enums.gen" } = options;
+    const path = posix.join(output, "index");
+    const exports = modules.map(({ path: modulePath, indices }) => {
+      const names = indices.flatMap((index) =>
+        this.getModuleExports(enums[index], identifiers[index], options),
+      );
+      return `export { ${names.join(", ")} } from ${formatEnumValue(this.toImportPath(path, modulePath, options))}`;
+    });
+
+    return {
+      path,
+      extension: ".ts",
+      content: this.withHeader(exports),
+    };
+  }
+
+  private toImportPath(
+    fromModule: string,
+    toModule: string,
+    options: GeneratorOptions,
+  ): string {
+    const { importFileExtension = "" } = options;
+    const importPath = posix.relative(posix.dirname(fromModule), toModule);
+    return `${importPath.startsWith(".") ? importPath : `./${importPath}`}${importFileExtension}`;
+  }
+
+  private applyCustomNames(
+    enums: EnumInfo[],
+    options: GeneratorOptions,
+  ): EnumInfo[] {
+    const { arrayPrefix = "", overrides = {}, naming } = options;
+
+    return enums.map((enumInfo) => {
+      const override = this.findOverride(enumInfo, overrides);
+      if (override) {
+        return { ...enumInfo, arrayName: override };
+      }
+
+      if (!naming) {
+        return enumInfo;
+      }
+
+      const proposedName =
+        arrayPrefix + this.toArrayName(enumInfo.name, options);
+      const customName = naming(enumInfo, proposedName);
+      return customName && customName !== proposedName
+        ? { ...enumInfo, arrayName: customName }
+        : enumInfo;
+    });
+  }
+
+  private findOverride(
+    enumInfo: EnumInfo,
+    overrides: Record<string, string>,
+  ): string | undefined {
+    if (Object.hasOwn(overrides, enumInfo.originalTypePath)) {
+      return overrides[enumInfo.originalTypePath];
+    }
+
+    const standaloneMatch =
+      enumInfo.originalTypePath.match(/^export type (\w+)$/);
+    if (standaloneMatch && Object.hasOwn(overrides, standaloneMatch[1])) {
+      return overrides[standaloneMatch[1]];
+    }
+
+    return undefined;
+  }
+
+  private deduplicateEnums(
+    enums: EnumInfo[],
+    audit: DeduplicationAudit,
+  ): EnumInfo[] {
     const enumMap = new Map<string, EnumInfo>();
     const nameGroups = new Map<string, EnumInfo[]>();
 
     for (const enumInfo of enums) {
-      if (!nameGroups.has(enumInfo.name)) {
-        nameGroups.set(enumInfo.name, []);
+      const groupKey = enumInfo.arrayName
+        ? `array:${enumInfo.arrayName}`
+        : enumInfo.name;
+      if (!nameGroups.has(groupKey)) {
+        nameGroups.set(groupKey, []);
       }
-      nameGroups.get(enumInfo.name)!.push(enumInfo);
+      nameGroups.get(groupKey)!.push(enumInfo);
     }
 
     const processedEnums: EnumInfo[] = [];
@@ -35,11 +783,16 @@ export class CodeGenerator {
       if (enumsWithSameName.length === 1) {
         processedEnums.push(enumsWithSameName[0]);
       } else {
+        this.logger.debug(
+          `Plugin: ${enumsWithSameName.length} enums named "${enumsWithSameName[0].name}" have different values, using contextual names`,
+        );
         for (const enumInfo of enumsWithSameName) {
           const contextualName = this.generateContextualName(enumInfo);
+          audit.conflictingPaths.add(enumInfo.originalTypePath);
           processedEnums.push({
             ...enumInfo,
             name: contextualName,
+            arrayName: undefined,
           });
         }
       }
@@ -48,7 +801,7 @@ export class CodeGenerator {
     const valueGroups = new Map<string, EnumInfo[]>();
 
     for (const enumInfo of processedEnums) {
-      const sortedValues = [...enumInfo.values].sort().join("|");
+      const sortedValues = getValueSetKey(enumInfo.values);
       if (!valueGroups.has(sortedValues)) {
         valueGroups.set(sortedValues, []);
       }
@@ -61,12 +814,14 @@ export class CodeGenerator {
         const uniqueKey = `${enumInfo.name}:${valuesKey}`;
         enumMap.set(uniqueKey, enumInfo);
       } else {
-        const bestEnum = this.chooseBestEnumForMerging(enumsWithSameValues);
+        const { enumInfo: bestEnum, reason } =
+          this.chooseBestEnumForMerging(enumsWithSameValues);
         const uniqueKey = `${bestEnum.name}:${valuesKey}`;
 
-        console.log(
-          `Plugin: Merged ${enumsWithSameValues.length} duplicate enum arrays into ${bestEnum.name}`,
+        this.logger.debug(
+          `Plugin: Merging ${enumsWithSameValues.length} enums with the same values into ${bestEnum.originalTypePath}, ${reason}`,
         );
+        audit.mergeReasons.set(bestEnum, reason);
         enumMap.set(uniqueKey, bestEnum);
       }
     }
@@ -74,7 +829,18 @@ export class CodeGenerator {
     return Array.from(enumMap.values());
   }
 
-  private chooseBestEnumForMerging(enums: EnumInfo[]): EnumInfo {
+  private chooseBestEnumForMerging(enums: EnumInfo[]): {
+    enumInfo: EnumInfo;
+    reason: string;
+  } {
+    const customNamed = enums.find((enumInfo) => enumInfo.arrayName);
+    if (customNamed) {
+      return {
+        enumInfo: customNamed,
+        reason: `custom name "${customNamed.arrayName}" from ${customNamed.originalTypePath}`,
+      };
+    }
+
     const genericTerms = [
       "data",
       "response",
@@ -106,7 +872,15 @@ export class CodeGenerator {
     });
 
     scored.sort((a, b) => b.score - a.score);
-    return scored[0].enumInfo;
+    const [best, ...others] = scored;
+    const alternatives = others
+      .map(({ enumInfo, score }) => `"${enumInfo.name}" (${score})`)
+      .join(", ");
+
+    return {
+      enumInfo: best.enumInfo,
+      reason: `highest naming score: "${best.enumInfo.name}" (${best.score}) over ${alternatives}`,
+    };
   }
 
   private generateFullPathName(enumInfo: EnumInfo): string {
@@ -115,6 +889,7 @@ export class CodeGenerator {
     }
 
     const cleaned = enumInfo.originalTypePath
+      .replace(/^export type /, "")
       .replace(/[^a-zA-Z0-9.]/g, "")
       .split(".")
       .map((part, index) => {
@@ -203,53 +978,667 @@ export class CodeGenerator {
     return parts[parts.length - 1] || null;
   }
 
-  private generateHeader(): string {
-    return "// This file is auto-generated by openapi-enum-arrays";
+  /**
+   * Joins the sections of a module below the generated file header, which
+   * carries a hash of the rest of the module
+   */
+  private withHeader(sections: (string | null | undefined)[]): string {
+    const body = sections.filter(Boolean).join("\n\n");
+    const hash = createHash("sha256").update(body).digest("hex").slice(0, 16);
+    return [GENERATED_FILE_HEADER, `// Content hash: ${hash}`, "", body].join(
+      "\n",
+    );
   }
 
   private generateArrayConstants(
     enums: EnumInfo[],
-    arrayPrefix: string,
+    identifiers: EnumIdentifiers[],
+    options: GeneratorOptions,
   ): string {
+    const {
+      valueOrder = "spec",
+      generateEnumObjects = false,
+      enumObjectKeyCase = "PascalCase",
+      generateTypeGuards = false,
+      generateAssertions = false,
+      generateTypeChecks = false,
+    } = options;
+    const keyGenerator = generateEnumObjects
+      ? new EnumKeyGenerator(enumObjectKeyCase)
+      : undefined;
+    const inlineValidators =
+      options.validatorsOutput !== "separate" ? options.validators : undefined;
+    const hasCompanions =
+      generateEnumObjects ||
+      Boolean(inlineValidators) ||
+      generateTypeGuards ||
+      generateAssertions ||
+      enums.some((enumInfo) => this.hasDocumentation(enumInfo));
+
     return enums
-      .map((enumInfo) => {
-        const semanticName = this.toArrayName(enumInfo.name);
-        const arrayName = arrayPrefix + semanticName;
-        const values = enumInfo.values
-          .sort()
-          .map((v) => `'${v}'`)
-          .join(", ");
-        return `export const ${arrayName} = [${values}] as const`;
+      .map((enumInfo, index) => {
+        const { arrayName, objectName, typeName, labelsName } =
+          identifiers[index];
+        const orderedValues = this.orderValues(enumInfo.values, valueOrder);
+        const values = orderedValues.map(formatEnumValue).join(", ");
+        const docComment = this.generateDocComment(enumInfo);
+        const sourceType = generateTypeChecks
+          ? this.toSourceType(enumInfo.originalTypePath, options)
+          : null;
+        const declarations = [
+          docComment,
+          sourceType
+            ? `export const ${arrayName} = [${values}] as const satisfies readonly (${sourceType} | null)[]`
+            : `export const ${arrayName} = [${values}] as const`,
+        ];
+
+        if (keyGenerator) {
+          const keyNames = orderedValues.map(
+            (value) => this.findValueMetadata(enumInfo, value)?.name,
+          );
+          declarations.push(
+            docComment,
+            this.generateEnumObject(
+              objectName,
+              orderedValues,
+              keyGenerator.generateKeys(orderedValues, keyNames),
+            ),
+          );
+        }
+
+        // Labels modules supersede the inline label map
+        if (!options.generateLabels && this.hasValueDescriptions(enumInfo)) {
+          declarations.push(
+            this.generateLabelMap(labelsName, orderedValues, enumInfo),
+          );
+        }
+
+        if (generateTypeGuards || generateAssertions) {
+          declarations.push(
+            this.generateTypeGuards(arrayName, typeName, generateAssertions),
+          );
+        }
+
+        if (inlineValidators) {
+          declarations.push(
+            this.generateValidator(
+              inlineValidators,
+              identifiers[index],
+              orderedValues,
+            ),
+          );
+        }
+
+        return declarations.filter(Boolean).join("\n");
       })
+      .join(hasCompanions ? "\n\n" : "\n");
+  }
+
+  private hasDocumentation(enumInfo: EnumInfo): boolean {
+    return Boolean(
+      enumInfo.description ||
+        enumInfo.deprecated ||
+        this.hasValueDescriptions(enumInfo),
+    );
+  }
+
+  private hasValueDescriptions(enumInfo: EnumInfo): boolean {
+    return (
+      enumInfo.valueMetadata?.some((metadata) => metadata.description) ?? false
+    );
+  }
+
+  private findValueMetadata(
+    enumInfo: EnumInfo,
+    value: EnumValue,
+  ): EnumValueMetadata | undefined {
+    return enumInfo.valueMetadata?.find((metadata) => metadata.value === value);
+  }
+
+  private generateDocComment(enumInfo: EnumInfo): string | null {
+    const lines = [
+      ...(enumInfo.description?.trim().split(/\r?\n/) ?? []),
+      ...(enumInfo.deprecated ? ["@deprecated"] : []),
+    ];
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    return [
+      "/**",
+      ...lines.map((line) => ` * ${line.replace(/\*\//g, "*\\/")}`.trimEnd()),
+      " */",
+    ].join("\n");
+  }
+
+  /**
+   * Maps every described value to its description, keyed by the value's
+   * string form
+   */
+  private generateLabelMap(
+    labelsName: string,
+    values: EnumValue[],
+    enumInfo: EnumInfo,
+  ): string {
+    const members = values.flatMap((value) => {
+      const description = this.findValueMetadata(enumInfo, value)?.description;
+      return description
+        ? [
+            `  ${formatEnumValue(String(value))}: ${formatEnumValue(description)},`,
+          ]
+        : [];
+    });
+
+    return `export const ${labelsName} = {\n${members.join("\n")}\n} as const`;
+  }
+
+  /**
+   * Labels for every non-null value, typed so that a missing or unknown key
+   * fails to compile
+   */
+  private generateLabelsModule(
+    enumInfo: EnumInfo,
+    identifiers: EnumIdentifiers,
+    options: GeneratorOptions,
+    modulePath: string,
+  ): GeneratedFile {
+    const { labelsDirectory = "labels", valueOrder = "spec" } = options;
+    const { arrayName, labelsName } = identifiers;
+    const path = posix.join(labelsDirectory, labelsName);
+    const values = this.orderValues(enumInfo.values, valueOrder).filter(
+      (value) => value !== null,
+    );
+
+    const elementType = `(typeof ${arrayName})[number]`;
+    const keyType = values.some((value) => typeof value === "boolean")
+      ? `\`\${NonNullable<${elementType}>}\``
+      : enumInfo.values.includes(null)
+        ? `NonNullable<${elementType}>`
+        : elementType;
+    const members = values.map(
+      (value) =>
+        `  ${formatEnumValue(String(value))}: ${formatEnumValue(toEnumLabel(value, this.findValueMetadata(enumInfo, value)))},`,
+    );
+
+    const content = this.withHeader([
+      `import type { ${arrayName} } from ${formatEnumValue(this.toImportPath(path, modulePath, options))}`,
+      [
+        `export const ${labelsName}: Record<${keyType}, string> = {`,
+        ...members,
+        "}",
+      ].join("\n"),
+    ]);
+
+    return { path, extension: ".ts", content };
+  }
+
+  private generateJsonCatalogue(
+    { enums, identifiers, sourcePaths }: PreparedEnums,
+    options: GeneratorOptions,
+  ): GeneratedFile {
+    const { valueOrder = "spec" } = options;
+    const catalogue = Object.fromEntries(
+      enums.map((enumInfo, index) => [
+        identifiers[index].arrayName,
+        {
+          values: this.orderValues(enumInfo.values, valueOrder),
+          sourcePaths: sourcePaths[index],
+          ...(enumInfo.description && { description: enumInfo.description }),
+          ...(enumInfo.deprecated && { deprecated: true }),
+        },
+      ]),
+    );
+
+    return {
+      path: "enums",
+      extension: ".json",
+      content: `${JSON.stringify(catalogue, null, 2)}\n`,
+    };
+  }
+
+  private generateJsonSchemaDocument(
+    { enums, identifiers }: PreparedEnums,
+    options: GeneratorOptions,
+  ): GeneratedFile {
+    const { valueOrder = "spec" } = options;
+    const definitions = Object.fromEntries(
+      enums.map((enumInfo, index) => {
+        const values = this.orderValues(enumInfo.values, valueOrder);
+        const jsonTypes = new Set(
+          values.map((value) => this.toJsonType(value)),
+        );
+        // `integer` is a subset of `number`
+        if (jsonTypes.has("number")) jsonTypes.delete("integer");
+        const types = [...jsonTypes];
+        return [
+          identifiers[index].arrayName,
+          {
+            type: types.length === 1 ? types[0] : types,
+            enum: values,
+            ...(enumInfo.description && { description: enumInfo.description }),
+            ...(enumInfo.deprecated && { deprecated: true }),
+          },
+        ];
+      }),
+    );
+    const document = {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $defs: definitions,
+    };
+
+    return {
+      path: "enums.schema",
+      extension: ".json",
+      content: `${JSON.stringify(document, null, 2)}\n`,
+    };
+  }
+
+  private toJsonType(value: EnumValue): string {
+    if (value === null) return "null";
+    if (typeof value === "number") {
+      return Number.isInteger(value) ? "integer" : "number";
+    }
+    return typeof value;
+  }
+
+  private orderValues(
+    values: EnumValue[],
+    valueOrder: EnumValueOrder,
+  ): EnumValue[] {
+    switch (valueOrder) {
+      case "spec":
+        return [...values];
+      case "alphabetical":
+        return [...values].sort(compareEnumValues);
+      case "natural":
+        return [...values].sort(compareEnumValuesNaturally);
+      default:
+        return [...values].sort(valueOrder);
+    }
+  }
+
+  private generateEnumObject(
+    objectName: string,
+    values: EnumValue[],
+    keys: string[],
+  ): string {
+    const members = values
+      .map((value, index) => `  ${keys[index]}: ${formatEnumValue(value)},`)
       .join("\n");
+
+    return [
+      `export const ${objectName} = Object.freeze({\n${members}\n} as const)`,
+      `export type ${objectName} = (typeof ${objectName})[keyof typeof ${objectName}]`,
+    ].join("\n");
   }
 
-  private toArrayName(typeName: string): string {
-    // Convert to camelCase and add appropriate suffix
-    const camelCase = typeName.charAt(0).toLowerCase() + typeName.slice(1);
+  private generateTypeGuards(
+    arrayName: string,
+    typeName: string,
+    withAssertions: boolean,
+  ): string {
+    const declarations = [
+      `export type ${typeName} = (typeof ${arrayName})[number]`,
+      `export const is${typeName} = (value: unknown): value is ${typeName} =>\n  (${arrayName} as readonly unknown[]).includes(value)`,
+    ];
+
+    if (withAssertions) {
+      declarations.push(
+        [
+          `export function assert${typeName}(value: unknown): asserts value is ${typeName} {`,
+          `  if (!is${typeName}(value)) {`,
+          "    throw new Error(",
+          `      \`Invalid ${typeName}: received \${JSON.stringify(value)}, expected one of \${${arrayName}.map((v) => JSON.stringify(v)).join(', ')}\`,`,
+          "    )",
+          "  }",
+          "}",
+        ].join("\n"),
+        [
+          `export function parse${typeName}(value: unknown): ${typeName} {`,
+          `  assert${typeName}(value)`,
+          "  return value",
+          "}",
+        ].join("\n"),
+      );
+    }
+
+    return declarations.join("\n");
+  }
+
+  private generateTypeChecks(
+    enums: EnumInfo[],
+    identifiers: EnumIdentifiers[],
+    options: GeneratorOptions,
+    modulePath: string,
+  ): { preamble: string; assertions: string } | null {
+    const { typesImportPath = "./types.gen" } = options;
+    // Relative paths are resolved from the output directory
+    const importPath = typesImportPath.startsWith(".")
+      ? this.toImportPath(modulePath, posix.normalize(typesImportPath), options)
+      : typesImportPath;
+    const checks: string[] = [];
+
+    for (const [index, enumInfo] of enums.entries()) {
+      const sourceType = this.toSourceType(enumInfo.originalTypePath, options);
+      if (!sourceType) continue;
+
+      const { arrayName } = identifiers[index];
+      checks.push(
+        `  EnumArraysAssert<EnumArraysExact<NonNullable<(typeof ${arrayName})[number]>, ${sourceType}>>,`,
+      );
+    }
 
-    // Add pluralization based on semantic meaning
-    if (camelCase.endsWith("Status")) {
-      return camelCase.replace("Status", "Statuses");
+    if (checks.length === 0) {
+      return null;
     }
-    if (camelCase.endsWith("Type")) {
-      return camelCase.replace("Type", "Types");
+
+    const preamble = [
+      `import type * as ${SOURCE_TYPES_NAMESPACE} from ${formatEnumValue(importPath)}`,
+      "",
+      "type EnumArraysMember<T> = NonNullable<T> extends readonly (infer E)[] ? NonNullable<E> : string extends keyof NonNullable<T> ? NonNullable<NonNullable<T>[string]> : NonNullable<T>",
+      "type EnumArraysExact<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false",
+      "type EnumArraysAssert<T extends true> = T",
+    ].join("\n");
+    const assertions = [
+      "// Fails to compile when an array and its source type diverge",
+      "export type EnumArraysTypeChecks = [",
+      ...checks,
+      "]",
+    ].join("\n");
+
+    return { preamble, assertions };
+  }
+
+  /**
+   * Builds a type expression for the source type of an enum, e.g.
+   * `GetItemsData.query.sort` -> `EnumArraysMember<…GetItemsData>['query']>['sort']>`.
+   * Arrays and maps resolve to their values. Null when the source type is
+   * not known to exist.
+   */
+  private toSourceType(
+    originalTypePath: string,
+    options: GeneratorOptions,
+  ): string | null {
+    const { sourceTypeNames } = options;
+    const isExported = (typeName: string) =>
+      !sourceTypeNames || sourceTypeNames.includes(typeName);
+
+    const standaloneMatch = originalTypePath.match(/^export type (\w+)$/);
+    if (standaloneMatch) {
+      return isExported(standaloneMatch[1])
+        ? `EnumArraysMember<${SOURCE_TYPES_NAMESPACE}.${standaloneMatch[1]}>`
+        : null;
     }
-    if (camelCase.endsWith("Model")) {
-      return camelCase.replace("Model", "Models");
+
+    const [rootType, ...properties] = originalTypePath.split(".");
+    if (
+      !/^\w+$/.test(rootType) ||
+      properties.length === 0 ||
+      !isExported(rootType)
+    ) {
+      return null;
     }
-    if (camelCase.endsWith("Role")) {
-      return camelCase.replace("Role", "Roles");
+
+    return properties.reduce(
+      (type, property) =>
+        `EnumArraysMember<${type}[${formatEnumValue(property)}]>`,
+      `EnumArraysMember<${SOURCE_TYPES_NAMESPACE}.${rootType}>`,
+    );
+  }
+
+  /**
+   * Final naming pass: every exported identifier must be legal and unique.
+   * Clashing enums fall back to contextual and then full-path names; an enum
+   * whose name was set explicitly keeps it when only generated names clash.
+   */
+  private resolveIdentifiers(
+    enums: EnumInfo[],
+    options: GeneratorOptions,
+    locked: (EnumIdentifiers | undefined)[] = [],
+  ): EnumIdentifiers[] {
+    const candidates = enums.map((enumInfo, index) =>
+      this.getIdentifierCandidates(enumInfo, options, locked[index]),
+    );
+    const levels = enums.map(() => 0);
+
+    for (;;) {
+      const owners = new Map<string, number[]>();
+      const claim = (identifier: string, owner: number) => {
+        const claimed = owners.get(identifier) ?? [];
+        if (!claimed.includes(owner)) claimed.push(owner);
+        owners.set(identifier, claimed);
+      };
+
+      if (options.generateTypeChecks) {
+        for (const identifier of TYPE_CHECK_IDENTIFIERS) claim(identifier, -1);
+      }
+      if (options.validators) {
+        claim(VALIDATOR_IMPORTS[options.validators].namespace, -1);
+      }
+      for (const [index, level] of levels.entries()) {
+        const exported = this.getExportedNames(
+          enums[index],
+          candidates[index][level],
+          options,
+        );
+        if (new Set(exported).size !== exported.length) {
+          throw new NamingConflictError(
+            `Plugin: Generated names for ${enums[index].originalTypePath} clash with each other: ${exported.join(", ")}`,
+            enums[index].originalTypePath,
+            exported,
+          );
+        }
+        for (const identifier of exported) claim(identifier, index);
+      }
+
+      const conflicts = [...owners].filter(([, claimed]) => claimed.length > 1);
+      if (conflicts.length === 0) {
+        return levels.map((level, index) => candidates[index][level]);
+      }
+
+      const escalated = new Set<number>();
+      for (const [identifier, claimed] of conflicts) {
+        // Helpers beat explicit names, which beat locked names, which beat
+        // other preferred names
+        const primary = claimed.filter(
+          (owner) => owner !== -1 && levels[owner] === 0,
+        );
+        const tiers = [
+          claimed.filter((owner) => owner === -1),
+          primary.filter((owner) => enums[owner].arrayName),
+          primary.filter((owner) => locked[owner]),
+          primary,
+        ];
+        const contenders = tiers.find((tier) => tier.length > 0) ?? [];
+        const keeper = contenders.length === 1 ? contenders[0] : undefined;
+
+        for (const owner of claimed) {
+          if (owner === keeper || owner === -1) continue;
+          if (levels[owner] + 1 >= candidates[owner].length) {
+            const paths = claimed.map((other) =>
+              other === -1 ? "type checks" : enums[other].originalTypePath,
+            );
+            throw new NamingConflictError(
+              `Plugin: Cannot resolve a unique name for "${identifier}" (${paths.join(", ")})`,
+              enums[owner].originalTypePath,
+              [identifier],
+            );
+          }
+          escalated.add(owner);
+        }
+      }
+
+      for (const owner of escalated) levels[owner]++;
     }
-    if (camelCase.endsWith("Source")) {
-      return camelCase.replace("Source", "Sources");
+  }
+
+  /**
+   * Identifier sets from the locked or preferred name to the most specific
+   * fallback
+   */
+  private getIdentifierCandidates(
+    enumInfo: EnumInfo,
+    options: GeneratorOptions,
+    locked?: EnumIdentifiers,
+  ): EnumIdentifiers[] {
+    const candidates = [
+      ...(locked ? [locked] : []),
+      this.toIdentifiers(
+        enumInfo.name,
+        enumInfo.arrayName,
+        options,
+        enumInfo.originalTypePath,
+      ),
+      this.toIdentifiers(
+        this.generateContextualName(enumInfo),
+        undefined,
+        options,
+        enumInfo.originalTypePath,
+      ),
+      this.toIdentifiers(
+        this.generateFullPathName(enumInfo),
+        undefined,
+        options,
+        enumInfo.originalTypePath,
+      ),
+    ];
+
+    return candidates.filter(
+      (candidate, index) =>
+        !candidates
+          .slice(0, index)
+          .some((previous) => previous.arrayName === candidate.arrayName),
+    );
+  }
+
+  private toIdentifiers(
+    name: string,
+    arrayName: string | undefined,
+    options: GeneratorOptions,
+    path: string,
+  ): EnumIdentifiers {
+    const { arrayPrefix = "" } = options;
+    const identifier = (value: string) => toIdentifier(value, path);
+    const typeName = identifier(arrayPrefix + this.capitalizeFirst(name));
+    // An array name that is not pluralised, e.g. with the `none` strategy or
+    // for words like `tags`, would give the enum object the type's name
+    const toObjectName = (objectArrayName: string) => {
+      const objectName = identifier(this.capitalizeFirst(objectArrayName));
+      return objectName === typeName ? `${objectName}Enum` : objectName;
+    };
+
+    if (arrayName) {
+      return {
+        arrayName: identifier(arrayName),
+        objectName: toObjectName(arrayName),
+        typeName,
+        labelsName: identifier(`${arrayName}Labels`),
+        schemaName: identifier(`${arrayName}Schema`),
+      };
+    }
+
+    const generatedName = this.toArrayName(name, options);
+    const camelCaseName = name.charAt(0).toLowerCase() + name.slice(1);
+    return {
+      arrayName: identifier(arrayPrefix + generatedName),
+      objectName: toObjectName(arrayPrefix + generatedName),
+      typeName,
+      labelsName: identifier(`${arrayPrefix}${camelCaseName}Labels`),
+      schemaName: identifier(`${arrayPrefix}${camelCaseName}Schema`),
+    };
+  }
+
+  /**
+   * Every identifier exported for an enum, across all modules
+   */
+  private getExportedNames(
+    enumInfo: EnumInfo,
+    identifiers: EnumIdentifiers,
+    options: GeneratorOptions,
+  ): string[] {
+    const names = this.getModuleExports(enumInfo, identifiers, options).map(
+      (name) => name.replace(/^type /, ""),
+    );
+
+    if (options.generateLabels) {
+      names.push(identifiers.labelsName);
+    }
+    if (options.validators && options.validatorsOutput === "separate") {
+      names.push(identifiers.schemaName);
+    }
+
+    return names;
+  }
+
+  /**
+   * Export specifiers of an enum in its enum module, type-only ones prefixed
+   * with `type`
+   */
+  private getModuleExports(
+    enumInfo: EnumInfo,
+    identifiers: EnumIdentifiers,
+    options: GeneratorOptions,
+  ): string[] {
+    const { arrayName, objectName, typeName, labelsName, schemaName } =
+      identifiers;
+    const names = [arrayName];
+
+    if (options.generateEnumObjects) {
+      names.push(objectName);
+    }
+    if (!options.generateLabels && this.hasValueDescriptions(enumInfo)) {
+      names.push(labelsName);
+    }
+    if (options.generateTypeGuards || options.generateAssertions) {
+      names.push(`type ${typeName}`, `is${typeName}`);
+    }
+    if (options.generateAssertions) {
+      names.push(`assert${typeName}`, `parse${typeName}`);
     }
-    if (camelCase.endsWith("Mode")) {
-      return camelCase.replace("Mode", "Modes");
+    if (options.validators && options.validatorsOutput !== "separate") {
+      names.push(schemaName);
+    }
+
+    return names;
+  }
+
+  private toArrayName(typeName: string, options: GeneratorOptions): string {
+    const { strategy = "auto", ...rules } = options.pluralization ?? {};
+
+    // Convert to camelCase and add appropriate suffix
+    const camelCase = typeName.charAt(0).toLowerCase() + typeName.slice(1);
+
+    switch (strategy) {
+      case "none":
+        return camelCase;
+      case "Values":
+        return `${camelCase}Values`;
+      case "List":
+        return `${camelCase}List`;
+    }
+
+    const pluralizer = new Pluralizer(rules);
+    const [, stem, lastWord] =
+      camelCase.match(/^(.*?)([A-Z]?[a-z0-9]+|[A-Z]+)$/) ?? [];
+
+    if (!lastWord || pluralizer.isUncountable(lastWord)) {
+      return `${camelCase}Values`;
+    }
+
+    // `auto` only pluralises compound names ending in a well-known word
+    if (
+      strategy === "auto" &&
+      !(
+        stem &&
+        (AUTO_PLURAL_WORDS.includes(lastWord) ||
+          pluralizer.hasCustomRule(lastWord))
+      )
+    ) {
+      return `${camelCase}Values`;
     }
 
-    // Default fallback - add 'Values' suffix
-    return `${camelCase}Values`;
+    return stem + pluralizer.pluralize(lastWord);
   }
 
   private capitalizeFirst(str: string): string {
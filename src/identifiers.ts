@@ -0,0 +1,90 @@
+import { NamingConflictError } from "./errors.js";
+
+// Reserved words, strict-mode restrictions and globals the generated code
+// relies on
+const RESERVED_IDENTIFIERS = new Set([
+  "arguments",
+  "await",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "eval",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "implements",
+  "import",
+  "in",
+  "instanceof",
+  "interface",
+  "let",
+  "new",
+  "null",
+  "package",
+  "private",
+  "protected",
+  "public",
+  "return",
+  "static",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+  "Infinity",
+  "NaN",
+  "undefined",
+  "Error",
+  "JSON",
+  "Object",
+  "NonNullable",
+  "Record",
+]);
+
+/**
+ * Turns an arbitrary name into a legal JavaScript identifier: invalid
+ * characters act as word boundaries, and names starting with a digit or
+ * clashing with a reserved word get a `_` prefix. Throws a
+ * `NamingConflictError` for `path`, the type path of the enum being named,
+ * when no identifier characters remain.
+ */
+export function toIdentifier(name: string, path = name): string {
+  const identifier = name.replace(
+    /[^\p{ID_Continue}$]+(.)?/gu,
+    (_match, next?: string) => (next ? next.toUpperCase() : ""),
+  );
+
+  if (!identifier) {
+    throw new NamingConflictError(
+      `Plugin: Cannot derive an identifier from "${name}" for ${path}`,
+      path,
+      [name],
+    );
+  }
+
+  if (!/^[\p{ID_Start}$_]/u.test(identifier)) {
+    return `_${identifier}`;
+  }
+
+  return RESERVED_IDENTIFIERS.has(identifier) ? `_${identifier}` : identifier;
+}
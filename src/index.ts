@@ -1,5 +1,38 @@
-export type { Config, EnumInfo } from "./types";
-export { EnumParser } from "./parser";
-export { CodeGenerator } from "./generator";
-export { handler } from "./plugin";
-export { defaultConfig, defineConfig } from "./config";
+export type {
+  Config,
+  EnumArrayRename,
+  EnumChanges,
+  EnumInfo,
+  EnumValue,
+  EnumValueKind,
+  EnumValueMetadata,
+  EnumValueChange,
+  EnumValueOrder,
+  GenerationReport,
+  GenerationReportArray,
+  GenerationReportFilteredEnum,
+  GenerationReportRename,
+  NamingLock,
+  NamingLockEntry,
+  OutputStrategy,
+  ValidatorLibrary,
+} from "./types.js";
+export { EnumParser } from "./parser.js";
+export type { EnumParserMode, EnumParserOptions } from "./parser.js";
+export { SpecEnumParser } from "./spec-parser.js";
+export { EnumMatcher } from "./patterns.js";
+export { Pluralizer } from "./pluralize.js";
+export { CodeGenerator } from "./generator.js";
+export { diffNamingLocks, formatEnumChanges } from "./changes.js";
+export {
+  BreakingEnumChangeError,
+  EnumArraysError,
+  EnumParseError,
+  MissingInputError,
+  NamingConflictError,
+  WriteError,
+} from "./errors.js";
+export { createLogger } from "./logger.js";
+export type { LogLevel, Logger } from "./logger.js";
+export { handler } from "./plugin.js";
+export { defaultConfig, defineConfig } from "./config.js";
@@ -0,0 +1,41 @@
+import type { EnumValue, EnumValueMetadata } from "./types.js";
+
+/**
+ * Display label for an enum value: the `x-enum-descriptions` entry, else the
+ * humanised `x-enum-varnames` entry, else the humanised value, e.g.
+ * `in_progress` -> `In progress`. Numbers are kept as they are.
+ */
+export function toEnumLabel(
+  value: EnumValue,
+  metadata?: EnumValueMetadata,
+): string {
+  if (metadata?.description) {
+    return metadata.description;
+  }
+  if (metadata?.name) {
+    return humanize(metadata.name);
+  }
+  return typeof value === "number" ? String(value) : humanize(String(value));
+}
+
+function humanize(text: string): string {
+  const screamingCase = text === text.toUpperCase();
+  const words = text
+    .replace(/([\p{Ll}\p{Nd}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .split(/[\s_-]+/u)
+    .filter(Boolean)
+    // Keep acronyms such as `HTTP` unless the whole text is upper case
+    .map((word) =>
+      !screamingCase && word.length > 1 && word === word.toUpperCase()
+        ? word
+        : word.toLowerCase(),
+    );
+
+  if (words.length === 0) {
+    return text;
+  }
+
+  const sentence = words.join(" ");
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
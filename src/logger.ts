@@ -0,0 +1,53 @@
+export type LogLevel = "silent" | "error" | "warn" | "info" | "debug";
+
+export interface Logger {
+  error(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  debug(message: string, ...details: unknown[]): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ["silent", "error", "warn", "info", "debug"];
+
+/**
+ * Console logger printing the messages at `level` and more severe ones
+ */
+export function createLogger(level: LogLevel = "info"): Logger {
+  const enabled = (messageLevel: LogLevel) =>
+    LOG_LEVELS.indexOf(messageLevel) <= LOG_LEVELS.indexOf(level);
+  const noop = () => {};
+
+  return {
+    error: enabled("error") ? console.error : noop,
+    warn: enabled("warn") ? console.warn : noop,
+    info: enabled("info") ? console.log : noop,
+    debug: enabled("debug") ? console.log : noop,
+  };
+}
+
+/**
+ * The configured logger, else a console logger at the openapi-ts log level,
+ * whose `trace` and `fatal` map to `debug` and `error`
+ */
+export function resolveLogger(
+  logger: LogLevel | Logger | undefined,
+  fallbackLevel?: string,
+): Logger {
+  if (typeof logger === "object") {
+    return logger;
+  }
+  if (logger) {
+    return createLogger(logger);
+  }
+  if (fallbackLevel === "trace") {
+    return createLogger("debug");
+  }
+  if (fallbackLevel === "fatal") {
+    return createLogger("error");
+  }
+  return createLogger(
+    LOG_LEVELS.includes(fallbackLevel as LogLevel)
+      ? (fallbackLevel as LogLevel)
+      : "info",
+  );
+}
@@ -1,5 +1,19 @@
-import { SemanticNaming } from "./semantic-naming";
-import type { EnumInfo } from "./types";
+import { AstEnumExtractor } from "./ast-parser.js";
+import type { Logger } from "./logger.js";
+import { SemanticNaming } from "./semantic-naming.js";
+import type { EnumInfo, EnumValue } from "./types.js";
+import { getEnumValueKind } from "./values.js";
+
+export type EnumParserMode = "ast" | "line";
+
+export interface EnumParserOptions {
+  /**
+   * `ast` walks the TypeScript syntax tree, `line` scans the file line by line
+   * @default 'ast'
+   */
+  mode?: EnumParserMode;
+  logger?: Logger;
+}
 
 /**
  * Handles line processing, comments, and whitespace filtering
@@ -119,8 +133,8 @@ class PropertyDetector {
  * Extracts union type values from type definitions
  */
 class UnionExtractor {
-  extractEnumValues(typeDefinition: string): string[] {
-    const values: Set<string> = new Set();
+  extractEnumValues(typeDefinition: string): EnumValue[] {
+    const values: Set<EnumValue> = new Set();
 
     const arrayMatch = typeDefinition.match(/Array<([^>]+)>/);
     if (arrayMatch) {
@@ -133,19 +147,60 @@ class UnionExtractor {
     if (typeDefinition.includes("|")) {
       const parts = typeDefinition.split("|").map((part) => part.trim());
       for (const part of parts) {
-        const valueMatch = part.match(/^(['"`])(.+?)\1$/);
-        if (valueMatch) {
-          values.add(valueMatch[2]);
+        const value = this.parseLiteral(part);
+        if (value !== undefined) {
+          values.add(value);
         }
       }
     }
 
     return Array.from(values);
   }
+
+  private parseLiteral(part: string): EnumValue | undefined {
+    // Match single quotes, double quotes, or backticks
+    const stringMatch = part.match(/^(['"`])(.*)\1$/);
+    if (stringMatch) {
+      return this.unescapeString(stringMatch[2]);
+    }
+    if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(part)) {
+      return Number(part);
+    }
+    if (part === "true" || part === "false") {
+      return part === "true";
+    }
+    return undefined;
+  }
+
+  private unescapeString(text: string): string {
+    return text.replace(
+      /\\(u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[\s\S])/g,
+      (_match, sequence: string) => {
+        if (sequence.startsWith("u{")) {
+          return String.fromCodePoint(parseInt(sequence.slice(2, -1), 16));
+        }
+        if (sequence.length > 1) {
+          return String.fromCharCode(parseInt(sequence.slice(1), 16));
+        }
+        const escapes: Record<string, string> = {
+          n: "\n",
+          r: "\r",
+          t: "\t",
+          b: "\b",
+          f: "\f",
+          v: "\v",
+          "0": "\0",
+        };
+        return escapes[sequence] ?? sequence;
+      },
+    );
+  }
 }
 
 /**
- * Extracts enum information from TypeScript type definitions
+ * Extracts enum information from TypeScript type definitions. In both modes
+ * `null` is not treated as a member: a nullable property and an enum
+ * containing null print the same union
  */
 export class EnumParser {
   private readonly unionTypeRegex =
@@ -158,16 +213,27 @@ export class EnumParser {
   private readonly tokenizer = new TypeScriptTokenizer();
   private readonly propertyDetector = new PropertyDetector();
   private readonly unionExtractor = new UnionExtractor();
+  private readonly astExtractor = new AstEnumExtractor();
+
+  constructor(private readonly options: EnumParserOptions = {}) {}
 
   parseEnumsFromTypeFile(content: string): EnumInfo[] {
+    const { mode = "ast", logger } = this.options;
     const enums: EnumInfo[] = [];
 
-    // Parse standalone type definitions
-    enums.push(...this.parseStandaloneTypes(content));
+    if (mode === "ast") {
+      enums.push(...this.astExtractor.extractEnums(content));
+    } else {
+      // Parse standalone type definitions
+      enums.push(...this.parseStandaloneTypes(content));
 
-    // Parse inline property types within interfaces/types
-    enums.push(...this.extractEnumsFromNestedTypeProperties(content));
+      // Parse inline property types within interfaces/types
+      enums.push(...this.extractEnumsFromNestedTypeProperties(content));
+    }
 
+    logger?.debug(
+      `Plugin: Parsed ${enums.length} enums from the types file (${mode} parser)`,
+    );
     return enums;
   }
 
@@ -193,6 +259,7 @@ export class EnumParser {
           name: semanticName,
           values: enumValues,
           originalTypePath,
+          valueKind: getEnumValueKind(enumValues),
         });
       }
 
@@ -269,6 +336,7 @@ export class EnumParser {
             name: enumName,
             values: enumValues,
             originalTypePath: fullPropertyPath,
+            valueKind: getEnumValueKind(enumValues),
           });
         }
       }
@@ -290,31 +358,8 @@ export class EnumParser {
     return foundEnums;
   }
 
-  private extractEnumValues(typeDefinition: string): string[] {
-    const values: Set<string> = new Set();
-
-    // Handle Array<'value1' | 'value2'> patterns first
-    const arrayMatch = typeDefinition.match(/Array<([^>]+)>/);
-    if (arrayMatch) {
-      const innerType = arrayMatch[1];
-      const arrayValues = this.extractEnumValues(innerType);
-      arrayValues.forEach((v) => values.add(v));
-      return Array.from(values);
-    }
-
-    // Handle union types with string literals
-    if (typeDefinition.includes("|")) {
-      const parts = typeDefinition.split("|").map((part) => part.trim());
-      for (const part of parts) {
-        // Match single quotes, double quotes, or backticks
-        const valueMatch = part.match(/^(['"`])(.+?)\1$/);
-        if (valueMatch) {
-          values.add(valueMatch[2]);
-        }
-      }
-    }
-
-    return Array.from(values);
+  private extractEnumValues(typeDefinition: string): EnumValue[] {
+    return this.unionExtractor.extractEnumValues(typeDefinition);
   }
 
   private capitalizeFirst(str: string): string {
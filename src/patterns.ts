@@ -0,0 +1,78 @@
+import type { EnumInfo, EnumPattern } from "./types.js";
+
+/**
+ * Matches enums against include/exclude patterns. A pattern is tested
+ * against the generated name, the `originalTypePath` and the source
+ * schema name:
+ * - `RegExp` patterns are tested against each of them
+ * - glob strings (`*` within a path segment, `**` across segments, `?`)
+ *   must match one of them entirely
+ * - plain strings match a substring of the generated name, or the path or
+ *   schema name exactly
+ */
+export class EnumMatcher {
+  private readonly globCache = new Map<string, RegExp>();
+
+  matches(enumInfo: EnumInfo, pattern: EnumPattern): boolean {
+    const targets = [
+      enumInfo.name,
+      enumInfo.originalTypePath,
+      this.getSourceTypeName(enumInfo.originalTypePath),
+    ].filter((target): target is string => Boolean(target));
+
+    if (pattern instanceof RegExp) {
+      return targets.some((target) => {
+        // Reset state so global/sticky patterns behave consistently
+        pattern.lastIndex = 0;
+        return pattern.test(target);
+      });
+    }
+
+    if (this.isGlob(pattern)) {
+      const regex = this.globToRegExp(pattern);
+      return targets.some((target) => regex.test(target));
+    }
+
+    return (
+      enumInfo.name.includes(pattern) ||
+      targets.slice(1).some((target) => target === pattern)
+    );
+  }
+
+  matchesAny(enumInfo: EnumInfo, patterns: EnumPattern[]): boolean {
+    return patterns.some((pattern) => this.matches(enumInfo, pattern));
+  }
+
+  getSourceTypeName(originalTypePath: string): string | null {
+    const standaloneMatch = originalTypePath.match(/^export type (\w+)$/);
+    if (standaloneMatch) {
+      return standaloneMatch[1];
+    }
+
+    const rootMatch = originalTypePath.match(/^(\w+)\./);
+    return rootMatch ? rootMatch[1] : null;
+  }
+
+  private isGlob(pattern: string): boolean {
+    return /[*?]/.test(pattern);
+  }
+
+  private globToRegExp(pattern: string): RegExp {
+    const cached = this.globCache.get(pattern);
+    if (cached) return cached;
+
+    const source = pattern
+      .split(/(\*\*|\*|\?)/)
+      .map((part) => {
+        if (part === "**") return ".*";
+        if (part === "*") return "[^.]*";
+        if (part === "?") return "[^.]";
+        return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+    const regex = new RegExp(`^${source}$`);
+
+    this.globCache.set(pattern, regex);
+    return regex;
+  }
+}
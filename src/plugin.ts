@@ -1,91 +1,549 @@
-import { existsSync, readFileSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
-import type { Plugin } from "@hey-api/openapi-ts";
-import { CodeGenerator } from "./generator";
-import { EnumParser } from "./parser";
-import type { Config } from "./types";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join, posix, resolve } from "node:path";
+import type { IR, Plugin } from "@hey-api/openapi-ts";
+import { diffNamingLocks, formatEnumChanges } from "./changes.js";
+import {
+  BreakingEnumChangeError,
+  EnumParseError,
+  MissingInputError,
+  WriteError,
+} from "./errors.js";
+import {
+  CodeGenerator,
+  GENERATED_FILE_HEADER,
+  type GeneratorOptions,
+} from "./generator.js";
+import { type Logger, resolveLogger } from "./logger.js";
+import { EnumParser, type EnumParserMode } from "./parser.js";
+import { EnumMatcher } from "./patterns.js";
+import { SpecEnumParser } from "./spec-parser.js";
+import type {
+  Config,
+  EnumInfo,
+  GenerationReport,
+  GenerationReportFilteredEnum,
+  NamingLock,
+} from "./types.js";
+import { formatEnumValue } from "./values.js";
+
+// File ID of the `@hey-api/typescript` module
+const TYPES_FILE_ID = "types";
 
 export const handler: Plugin.Handler<Config> = ({ context, plugin }) => {
   const {
-    includePatterns,
-    excludePatterns,
-    arrayPrefix = "",
     debug = false,
+    source = "spec",
+    typesParser = "ast",
+    outputStrategy = "single",
+    strict = false,
+    onError,
   } = plugin;
+  const logger = resolveLogger(
+    plugin.logger ?? (debug ? "debug" : undefined),
+    context?.config?.logs?.level,
+  );
+
+  const fail = (error: unknown) => {
+    const failure = error instanceof Error ? error : new Error(String(error));
+    onError?.(failure);
+    if (strict || failure instanceof BreakingEnumChangeError) {
+      throw failure;
+    }
+    if (onError) {
+      return;
+    }
+    if (failure instanceof MissingInputError) {
+      logger.warn(failure.message);
+      return;
+    }
+    logger.error("Plugin: Error generating enum arrays:", failure);
+    logger.debug("Plugin: Stack trace:", failure);
+  };
 
   if (!context?.config?.output?.path) {
-    console.warn("Plugin: output path not available, skipping enum generation");
+    fail(
+      new MissingInputError(
+        "Plugin: output path not available, skipping enum generation",
+        "output.path",
+      ),
+    );
     return;
   }
 
-  const typesFilePath = join(context.config.output.path, "types.gen.ts");
+  const { dryRun, output } = context.config;
+  const typesModule = getTypesModule(context);
 
-  if (!existsSync(typesFilePath)) {
-    console.warn(`Plugin: types file not found at ${typesFilePath}`);
-    return;
-  }
+  const generate = (
+    readEnums: () => EnumInfo[],
+    sourceTypeNames?: string[],
+  ) => {
+    try {
+      const enumOutput = generateEnumOutput(
+        readEnums(),
+        plugin,
+        output.path,
+        logger,
+        {
+          typesImportPath: `./${typesModule}`,
+          sourceTypeNames,
+          importFileExtension:
+            plugin.importFileExtension ?? getImportFileExtension(output),
+        },
+      );
 
-  try {
-    const typesContent = readFileSync(typesFilePath, "utf-8");
-    const parser = new EnumParser();
-    let enums = parser.parseEnumsFromTypeFile(typesContent);
+      const { files, enums } = enumOutput;
 
-    if (debug) {
-      console.log(
-        `🐛 Plugin: Found ${enums.length} enum types before filtering:`,
-      );
-      enums.forEach((enumInfo, index) => {
-        console.log(
-          `  ${index + 1}. ${enumInfo.name} (${enumInfo.values.length} values) - ${enumInfo.originalTypePath}`,
+      if (dryRun) {
+        logger.info(
+          `Plugin: Dry run, skipped writing ${files.length} enum files`,
         );
-      });
-    }
+        return;
+      }
 
-    const originalCount = enums.length;
-    if (includePatterns) {
-      enums = enums.filter((enumInfo) =>
-        includePatterns.some((pattern) => enumInfo.name.includes(pattern)),
+      writeEnumOutput(enumOutput, logger);
+      const outputPath = join(
+        output.path,
+        outputStrategy === "single"
+          ? `${plugin.output}.ts`
+          : `${plugin.output}`,
       );
-      if (debug) {
-        console.log(
-          `🐛 Plugin: After include patterns: ${enums.length}/${originalCount} enums`,
+
+      const message = `Plugin: Generated ${enums.length} enum arrays at ${outputPath}`;
+      logger.info(message);
+
+      logger.debug("Plugin: Generated enum names:");
+      for (const enumInfo of enums) {
+        logger.debug(
+          `  - ${enumInfo.name} = [${enumInfo.values.map(formatEnumValue).join(", ")}] as const`,
         );
       }
+    } catch (error) {
+      fail(error);
     }
+  };
 
-    if (excludePatterns) {
-      const beforeExclude = enums.length;
-      enums = enums.filter(
-        (enumInfo) =>
-          !excludePatterns.some((pattern) => enumInfo.name.includes(pattern)),
+  // The types module is only filled in once openapi-ts has walked the spec
+  context.subscribe("after", () => {
+    if (source === "spec" && context.ir) {
+      // Type checks may only reference the types it exports
+      generate(
+        () => parseEnumsFromSpec(context.ir, context.config.input.path),
+        getExportedTypeNames(context),
       );
-      if (debug) {
-        console.log(
-          `🐛 Plugin: After exclude patterns: ${enums.length}/${beforeExclude} enums`,
-        );
-      }
+      return;
     }
+    generate(() =>
+      parseEnumsFromTypesFile(context, typesModule, typesParser, logger),
+    );
+  });
+};
 
-    const generator = new CodeGenerator();
-    const generatedCode = generator.generateEnumArrays(enums, { arrayPrefix });
-    const outputPath = join(context.config.output.path, `${plugin.output}.ts`);
-    writeFileSync(outputPath, generatedCode);
+export interface EnumOutput {
+  /**
+   * Every file to write, the lockfile and report included
+   */
+  files: OutputFile[];
+  /**
+   * Enums left after filtering
+   */
+  enums: EnumInfo[];
+  /**
+   * Generated modules left in the multi-file output and labels directories
+   * that this run no longer produces
+   */
+  staleFiles: string[];
+}
 
-    const message = `Plugin: Generated ${enums.length} enum arrays at ${outputPath}`;
-    console.log(message);
+export interface OutputFile {
+  /**
+   * Absolute path
+   */
+  path: string;
+  content: string;
+}
 
-    if (debug) {
-      console.log("🐛 Plugin: Generated enum names:");
-      for (const enumInfo of enums) {
-        console.log(
-          `  - ${enumInfo.name} = [${enumInfo.values.map((v) => `'${v}'`).join(", ")}] as const`,
-        );
-      }
+/**
+ * Filters `enums` and generates the files configured by `config` under
+ * `outputPath`, reading the naming lock and failing on breaking changes as
+ * configured. Shared by the plugin handler and the CLI.
+ */
+export function generateEnumOutput(
+  parsedEnums: EnumInfo[],
+  config: Omit<Config, "name">,
+  outputPath: string,
+  logger: Logger,
+  generatorOptions: GeneratorOptions = {},
+): EnumOutput {
+  const {
+    includePatterns,
+    excludePatterns,
+    filter,
+    arrayPrefix = "",
+    pluralization,
+    overrides,
+    naming,
+    valueOrder = "spec",
+    generateEnumObjects = false,
+    enumObjectKeyCase = "PascalCase",
+    generateTypeGuards = false,
+    generateAssertions = false,
+    generateTypeChecks = false,
+    outputStrategy = "single",
+    generateLabels = false,
+    labelsDirectory = "labels",
+    validators,
+    validatorsOutput = "inline",
+    generateJson = false,
+    generateJsonSchema = false,
+    generateReport = false,
+    namingLock = false,
+    relockNames = false,
+    failOnBreaking = false,
+  } = config;
+  let enums = parsedEnums;
+
+  logger.debug(`Plugin: Found ${enums.length} enum types before filtering:`);
+  enums.forEach((enumInfo, index) => {
+    logger.debug(
+      `  ${index + 1}. ${enumInfo.name} (${enumInfo.values.length} values) - ${enumInfo.originalTypePath}`,
+    );
+  });
+
+  const matcher = new EnumMatcher();
+  const filtered: GenerationReportFilteredEnum[] = [];
+  const originalCount = enums.length;
+  if (includePatterns) {
+    enums = filterEnums(
+      enums,
+      (enumInfo) => matcher.matchesAny(enumInfo, includePatterns),
+      "includePatterns",
+      filtered,
+    );
+    logger.debug(
+      `Plugin: After include patterns: ${enums.length}/${originalCount} enums`,
+    );
+  }
+
+  if (excludePatterns) {
+    const beforeExclude = enums.length;
+    enums = filterEnums(
+      enums,
+      (enumInfo) => !matcher.matchesAny(enumInfo, excludePatterns),
+      "excludePatterns",
+      filtered,
+    );
+    logger.debug(
+      `Plugin: After exclude patterns: ${enums.length}/${beforeExclude} enums`,
+    );
+  }
+
+  if (filter) {
+    const beforeFilter = enums.length;
+    enums = filterEnums(enums, filter, "filter", filtered);
+    logger.debug(
+      `Plugin: After filter predicate: ${enums.length}/${beforeFilter} enums`,
+    );
+  }
+
+  const lockPath = namingLock
+    ? resolve(typeof namingLock === "string" ? namingLock : "enums.lock.json")
+    : undefined;
+  const previousLock =
+    lockPath && existsSync(lockPath) ? readNamingLock(lockPath) : undefined;
+  if (failOnBreaking && !lockPath) {
+    logger.warn(
+      "Plugin: failOnBreaking needs namingLock to compare with the previous run",
+    );
+  }
+
+  const generator = new CodeGenerator(logger);
+  const {
+    files,
+    report: generationReport,
+    lock,
+  } = generator.generate(enums, {
+    arrayPrefix,
+    pluralization,
+    overrides,
+    naming,
+    valueOrder,
+    generateEnumObjects,
+    enumObjectKeyCase,
+    generateTypeGuards,
+    generateAssertions,
+    generateTypeChecks,
+    output: config.output,
+    importFileExtension: config.importFileExtension,
+    outputStrategy,
+    generateLabels,
+    labelsDirectory,
+    validators,
+    validatorsOutput,
+    generateJson,
+    generateJsonSchema,
+    namingLock: relockNames ? undefined : previousLock,
+    ...generatorOptions,
+  });
+  const report: GenerationReport = {
+    ...generationReport,
+    filtered: filtered.sort((a, b) =>
+      a.originalTypePath < b.originalTypePath
+        ? -1
+        : a.originalTypePath > b.originalTypePath
+          ? 1
+          : 0,
+    ),
+  };
+
+  for (const array of report.arrays) {
+    if (array.sourcePaths.length > 1) {
+      logger.info(
+        `Plugin: Merged ${array.sourcePaths.length} duplicate enum arrays into ${array.name}`,
+      );
     }
-  } catch (error) {
-    console.error("Plugin: Error generating enum arrays:", error);
-    if (debug) {
-      console.error("🐛 Plugin: Stack trace:", error);
+  }
+
+  if (lockPath && previousLock) {
+    const changes = diffNamingLocks(previousLock, lock);
+    const lines = formatEnumChanges(changes);
+    if (lines.length > 0) {
+      logger.info(
+        `Plugin: Enum changes since the last run:\n${lines.map((line) => `  - ${line}`).join("\n")}`,
+      );
+    }
+    if (failOnBreaking && changes.removedValues.length > 0) {
+      throw new BreakingEnumChangeError(changes.removedValues, lockPath);
     }
   }
-};
+
+  if (generateReport) {
+    files.push({
+      path: "enums.report",
+      extension: ".json",
+      content: `${JSON.stringify(report, null, 2)}\n`,
+    });
+  }
+
+  const outputFiles = files.map((file) => ({
+    path: join(outputPath, `${file.path}${file.extension}`),
+    content: file.content,
+  }));
+  if (lockPath) {
+    outputFiles.push({
+      path: lockPath,
+      content: `${JSON.stringify(lock, null, 2)}\n`,
+    });
+  }
+
+  const directories = [
+    ...(outputStrategy === "single"
+      ? []
+      : [join(outputPath, config.output ?? "enums.gen")]),
+    ...(generateLabels ? [join(outputPath, labelsDirectory)] : []),
+  ];
+  const staleFiles = findStaleFiles(directories, outputFiles);
+
+  return { files: outputFiles, enums, staleFiles };
+}
+
+/**
+ * Writes the files whose content changed and deletes the stale ones
+ */
+export function writeEnumOutput(
+  { files, staleFiles }: EnumOutput,
+  logger: Logger,
+): void {
+  const written = files.filter((file) => writeOutputFile(file));
+  for (const path of staleFiles) {
+    try {
+      rmSync(path);
+    } catch (error) {
+      throw new WriteError(`Plugin: Cannot delete ${path}`, path, {
+        cause: error,
+      });
+    }
+    logger.debug(`Plugin: Deleted stale ${path}`);
+  }
+  logger.debug(
+    `Plugin: Wrote ${written.length} changed files, ${files.length - written.length} were up to date`,
+  );
+}
+
+/**
+ * Modules with the generated file header in `directories` other than `files`
+ */
+function findStaleFiles(directories: string[], files: OutputFile[]): string[] {
+  const current = new Set(files.map((file) => file.path));
+  return directories.flatMap((directory) => {
+    if (!existsSync(directory)) {
+      return [];
+    }
+    return readdirSync(directory, { recursive: true, encoding: "utf-8" })
+      .map((name) => join(directory, name))
+      .filter(
+        (path) =>
+          path.endsWith(".ts") &&
+          !current.has(path) &&
+          statSync(path).isFile() &&
+          readFileSync(path, "utf-8").startsWith(GENERATED_FILE_HEADER),
+      )
+      .sort();
+  });
+}
+
+/**
+ * Keeps the enums passing `keep`, recording the others in `filtered`
+ */
+function filterEnums(
+  enums: EnumInfo[],
+  keep: (enumInfo: EnumInfo) => boolean,
+  reason: GenerationReportFilteredEnum["reason"],
+  filtered: GenerationReportFilteredEnum[],
+): EnumInfo[] {
+  return enums.filter((enumInfo) => {
+    if (keep(enumInfo)) return true;
+    filtered.push({
+      originalTypePath: enumInfo.originalTypePath,
+      name: enumInfo.name,
+      reason,
+    });
+    return false;
+  });
+}
+
+/**
+ * Writes `file` unless it already has this content, so unchanged files keep
+ * their modification time. Whether the file was written.
+ */
+export function writeOutputFile(file: OutputFile): boolean {
+  try {
+    if (
+      existsSync(file.path) &&
+      readFileSync(file.path, "utf-8") === file.content
+    ) {
+      return false;
+    }
+    mkdirSync(dirname(file.path), { recursive: true });
+    writeFileSync(file.path, file.content);
+    return true;
+  } catch (error) {
+    throw new WriteError(`Plugin: Cannot write ${file.path}`, file.path, {
+      cause: error,
+    });
+  }
+}
+
+function readNamingLock(lockPath: string): NamingLock {
+  let lock: NamingLock;
+  try {
+    lock = JSON.parse(readFileSync(lockPath, "utf-8")) as NamingLock;
+  } catch (error) {
+    throw new EnumParseError(
+      `Plugin: Cannot read the naming lockfile at ${lockPath}`,
+      lockPath,
+      { cause: error },
+    );
+  }
+  if (lock.version !== 1 || !Array.isArray(lock.arrays)) {
+    throw new EnumParseError(
+      `Plugin: Unsupported naming lockfile at ${lockPath}`,
+      lockPath,
+    );
+  }
+  return lock;
+}
+
+function parseEnumsFromSpec(
+  ir: IR.Model,
+  input: string | Record<string, unknown>,
+): EnumInfo[] {
+  try {
+    return new SpecEnumParser().parseEnumsFromSpec(ir);
+  } catch (error) {
+    const path = typeof input === "string" ? input : "input";
+    throw new EnumParseError(`Plugin: Cannot read enums from ${path}`, path, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Module written by `@hey-api/typescript`, relative to the output path and
+ * without extension, e.g. `types.gen`
+ */
+function getTypesModule(context: IR.Context): string {
+  const typesFile = context.file({ id: TYPES_FILE_ID });
+  const typesPlugin = context.config.plugins["@hey-api/typescript"] as
+    | { output?: string }
+    | undefined;
+  if (!typesFile || !typesPlugin?.output) {
+    return "types.gen";
+  }
+  return posix.join(
+    posix.dirname(typesPlugin.output),
+    typesFile.nameWithoutExtension(),
+  );
+}
+
+/**
+ * Names of the types and interfaces the types module exports
+ */
+function getExportedTypeNames(context: IR.Context): string[] {
+  const typesContent = context.file({ id: TYPES_FILE_ID })?.toString() ?? "";
+  return Array.from(
+    typesContent.matchAll(/^export (?:type|interface) ([\w$]+)/gm),
+    (match) => match[1],
+  );
+}
+
+/**
+ * `output.importFileExtension` of openapi-ts versions that support it
+ */
+function getImportFileExtension(output: object): string {
+  const { importFileExtension } = output as {
+    importFileExtension?: string | null;
+  };
+  return importFileExtension ?? "";
+}
+
+function parseEnumsFromTypesFile(
+  context: IR.Context,
+  typesModule: string,
+  mode: EnumParserMode,
+  logger: Logger,
+): EnumInfo[] {
+  const typesFilePath = join(context.config.output.path, `${typesModule}.ts`);
+  // Prefer the module openapi-ts is about to write over the previous run's
+  const typesFile = context.file({ id: TYPES_FILE_ID });
+  const typesContent = typesFile
+    ? typesFile.toString()
+    : existsSync(typesFilePath)
+      ? readFileSync(typesFilePath, "utf-8")
+      : undefined;
+
+  if (typesContent === undefined) {
+    throw new MissingInputError(
+      `Plugin: types file not found at ${typesFilePath}`,
+      typesFilePath,
+    );
+  }
+
+  try {
+    const parser = new EnumParser({ mode, logger });
+    return parser.parseEnumsFromTypeFile(typesContent);
+  } catch (error) {
+    throw new EnumParseError(
+      `Plugin: Cannot read enums from ${typesFilePath}`,
+      typesFilePath,
+      { cause: error },
+    );
+  }
+}
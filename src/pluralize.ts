@@ -0,0 +1,131 @@
+import type { PluralizationOptions } from "./types.js";
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  analysis: "analyses",
+  axis: "axes",
+  child: "children",
+  criterion: "criteria",
+  echo: "echoes",
+  foot: "feet",
+  goose: "geese",
+  hero: "heroes",
+  index: "indices",
+  knife: "knives",
+  leaf: "leaves",
+  life: "lives",
+  man: "men",
+  matrix: "matrices",
+  medium: "media",
+  mouse: "mice",
+  person: "people",
+  phenomenon: "phenomena",
+  potato: "potatoes",
+  quiz: "quizzes",
+  shelf: "shelves",
+  tomato: "tomatoes",
+  tooth: "teeth",
+  vertex: "vertices",
+  wife: "wives",
+  woman: "women",
+};
+
+const UNCOUNTABLE_WORDS = [
+  "audio",
+  "data",
+  "equipment",
+  "feedback",
+  "information",
+  "metadata",
+  "money",
+  "news",
+  "series",
+  "sheep",
+  "software",
+  "species",
+  "traffic",
+  "video",
+];
+
+/**
+ * Converts English nouns to their plural form while preserving casing
+ */
+export class Pluralizer {
+  private readonly irregular: Map<string, string>;
+  private readonly uncountable: Set<string>;
+  private readonly customWords: Set<string>;
+
+  constructor(
+    rules: Pick<PluralizationOptions, "irregular" | "uncountable"> = {},
+  ) {
+    const customIrregular = Object.entries(rules.irregular ?? {}).map(
+      ([singular, plural]) =>
+        [singular.toLowerCase(), plural.toLowerCase()] as const,
+    );
+    const customUncountable = (rules.uncountable ?? []).map((word) =>
+      word.toLowerCase(),
+    );
+
+    this.irregular = new Map([
+      ...Object.entries(IRREGULAR_PLURALS),
+      ...customIrregular,
+    ]);
+    this.uncountable = new Set([...UNCOUNTABLE_WORDS, ...customUncountable]);
+    this.customWords = new Set([
+      ...customIrregular.map(([singular]) => singular),
+      ...customUncountable,
+    ]);
+  }
+
+  pluralize(word: string): string {
+    const lower = word.toLowerCase();
+
+    if (this.uncountable.has(lower)) {
+      return word;
+    }
+
+    const irregular = this.irregular.get(lower);
+    if (irregular) {
+      return this.matchCase(word, irregular);
+    }
+
+    return this.matchCase(word, this.applySuffixRules(lower));
+  }
+
+  isUncountable(word: string): boolean {
+    return this.uncountable.has(word.toLowerCase());
+  }
+
+  /**
+   * Whether the word has a user-defined irregular or uncountable rule
+   */
+  hasCustomRule(word: string): boolean {
+    return this.customWords.has(word.toLowerCase());
+  }
+
+  private applySuffixRules(word: string): string {
+    // Already plural, e.g. `tags`, `types`, `boxes`
+    if (/([^aeiosu]s|es)$/.test(word)) {
+      return word;
+    }
+    if (/[^aeiou]y$/.test(word)) {
+      return `${word.slice(0, -1)}ies`;
+    }
+    if (/(s|x|z|ch|sh)$/.test(word)) {
+      return `${word}es`;
+    }
+    return `${word}s`;
+  }
+
+  private matchCase(original: string, plural: string): string {
+    // Acronyms keep a lowercase suffix, e.g. `ID` -> `IDs`
+    if (original.length > 1 && original === original.toUpperCase()) {
+      return plural.startsWith(original.toLowerCase())
+        ? original + plural.slice(original.length)
+        : plural.toUpperCase();
+    }
+    if (original.charAt(0) === original.charAt(0).toUpperCase()) {
+      return plural.charAt(0).toUpperCase() + plural.slice(1);
+    }
+    return plural;
+  }
+}
@@ -1,3 +1,5 @@
+import type { EnumValue } from "./types.js";
+
 /**
  * Generates semantic names for enum arrays based purely on OpenAPI structure
  * No domain-specific assumptions - works with any OpenAPI specification
@@ -6,7 +8,7 @@ export class SemanticNaming {
   /**
    * Generate a semantic name for an enum based purely on OpenAPI structure
    */
-  generateName(values: string[], originalTypePath?: string): string {
+  generateName(values: EnumValue[], originalTypePath?: string): string {
     // Primary: Extract semantic meaning from OpenAPI type path
     const openApiDomain = this.extractDomainFromOpenApiPath(originalTypePath);
     const openApiType = this.extractTypeFromOpenApiPath(originalTypePath);
@@ -145,10 +147,10 @@ export class SemanticNaming {
     return firstWord;
   }
 
-  private generateFromValues(values: string[]): string {
-    const prefix = values[0]?.toLowerCase().substring(0, 3) || "enum";
-    const suffix =
-      values.length > 1 ? values[1]?.toLowerCase().substring(0, 2) || "" : "";
+  private generateFromValues(values: EnumValue[]): string {
+    const [first, second] = values.map((value) => String(value).toLowerCase());
+    const prefix = first?.substring(0, 3) || "enum";
+    const suffix = values.length > 1 ? second?.substring(0, 2) || "" : "";
     return `${prefix}${suffix}Values`;
   }
 
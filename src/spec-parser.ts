@@ -0,0 +1,269 @@
+import type { IR } from "@hey-api/openapi-ts";
+import { SemanticNaming } from "./semantic-naming.js";
+import { createTypeNamer } from "./type-names.js";
+import type { EnumInfo, EnumValue, EnumValueMetadata } from "./types.js";
+import { getEnumValueKind } from "./values.js";
+
+const HTTP_METHODS = [
+  "delete",
+  "get",
+  "head",
+  "options",
+  "patch",
+  "post",
+  "put",
+  "trace",
+] as const;
+
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+type TypeNamer = ReturnType<typeof createTypeNamer>;
+
+const PARAMETER_LOCATIONS = {
+  header: "headers",
+  path: "path",
+  query: "query",
+} as const;
+
+/**
+ * Extracts enum information directly from the parsed OpenAPI specification
+ * (the @hey-api intermediate representation) instead of generated TypeScript
+ */
+export class SpecEnumParser {
+  private readonly semanticNaming = new SemanticNaming();
+
+  parseEnumsFromSpec(ir: IR.Model): EnumInfo[] {
+    const enums: EnumInfo[] = [];
+
+    const typeName = createTypeNamer();
+    enums.push(...this.parseComponents(ir.components, typeName));
+    enums.push(...this.parseOperations(ir.paths, typeName));
+
+    return enums;
+  }
+
+  private parseComponents(
+    components: IR.ComponentsObject | undefined,
+    typeName: TypeNamer,
+  ): EnumInfo[] {
+    const enums: EnumInfo[] = [];
+    if (!components) return enums;
+
+    // Types are named after the last segment of the component `$ref`
+    const refName = (name: string) => name.split("/").pop() ?? name;
+
+    for (const [name, schema] of Object.entries(components.schemas ?? {})) {
+      this.visitSchema(schema, [typeName(refName(name))], enums);
+    }
+
+    for (const [name, parameter] of Object.entries(
+      components.parameters ?? {},
+    )) {
+      this.visitSchema(parameter.schema, [typeName(refName(name))], enums);
+    }
+
+    for (const [name, requestBody] of Object.entries(
+      components.requestBodies ?? {},
+    )) {
+      this.visitSchema(requestBody.schema, [typeName(refName(name))], enums);
+    }
+
+    return enums;
+  }
+
+  private parseOperations(
+    paths: IR.PathsObject | undefined,
+    typeName: TypeNamer,
+  ): EnumInfo[] {
+    const enums: EnumInfo[] = [];
+    if (!paths) return enums;
+
+    for (const pathItem of Object.values(paths) as IR.PathItemObject[]) {
+      for (const [method, operation] of Object.entries(pathItem)) {
+        if (HTTP_METHODS.includes(method as HttpMethod) && operation) {
+          enums.push(...this.parseOperation(operation, typeName));
+        }
+      }
+    }
+
+    return enums;
+  }
+
+  private parseOperation(
+    operation: IR.OperationObject,
+    typeName: TypeNamer,
+  ): EnumInfo[] {
+    const enums: EnumInfo[] = [];
+    const dataTypeName = typeName(operation.id, "Data");
+
+    for (const [location, section] of Object.entries(PARAMETER_LOCATIONS)) {
+      const parameters =
+        operation.parameters?.[location as keyof typeof PARAMETER_LOCATIONS];
+      for (const [name, parameter] of Object.entries(parameters ?? {})) {
+        this.visitSchema(
+          parameter.schema,
+          [dataTypeName, section, name],
+          enums,
+        );
+      }
+    }
+
+    if (operation.body) {
+      this.visitSchema(operation.body.schema, [dataTypeName, "body"], enums);
+    }
+
+    // Names are claimed in declaration order: `<Op>Errors` and its `<Op>Error`
+    // union, then `<Op>Responses` and `<Op>Response`
+    const groups = this.splitResponses(operation);
+    const groupTypeNames = { Errors: "", Responses: "" };
+    for (const group of ["Errors", "Responses"] as const) {
+      if (groups[group].length > 0) {
+        groupTypeNames[group] = typeName(operation.id, group);
+        typeName(operation.id, group.slice(0, -1));
+      }
+    }
+
+    for (const group of ["Responses", "Errors"] as const) {
+      for (const [statusCode, response] of groups[group]) {
+        this.visitSchema(
+          response.schema,
+          [groupTypeNames[group], statusCode],
+          enums,
+        );
+      }
+    }
+
+    for (const enumInfo of enums) {
+      enumInfo.operationId = operation.id;
+      if (operation.tags?.length) {
+        enumInfo.tags = [...operation.tags];
+      }
+    }
+
+    return enums;
+  }
+
+  /**
+   * Groups the responses the way `@hey-api/typescript` does: 2XX codes go to
+   * `<Op>Responses`, 4XX and 5XX codes to `<Op>Errors`, and `default` to
+   * `<Op>Responses` when there is no 2XX code or it reads as a success, else
+   * to `<Op>Errors`. 1XX and 3XX codes are not emitted.
+   */
+  private splitResponses(operation: IR.OperationObject): {
+    Responses: [string, IR.ResponseObject][];
+    Errors: [string, IR.ResponseObject][];
+  } {
+    const responses: [string, IR.ResponseObject][] = [];
+    const errors: [string, IR.ResponseObject][] = [];
+    let defaultResponse: IR.ResponseObject | undefined;
+
+    for (const [statusCode, response] of Object.entries(
+      operation.responses ?? {},
+    )) {
+      if (!response) continue;
+      if (statusCode === "default") {
+        defaultResponse = response;
+      } else if (statusCode[0] === "2") {
+        responses.push([statusCode, response]);
+      } else if (statusCode[0] === "4" || statusCode[0] === "5") {
+        errors.push([statusCode, response]);
+      }
+    }
+
+    if (defaultResponse) {
+      const hint = [
+        defaultResponse.schema.description ?? "",
+        defaultResponse.schema.$ref ?? "",
+      ]
+        .join(" ")
+        .toLocaleLowerCase();
+      const isSuccess = !responses.length || hint.includes("success");
+      const isError = /error|problem/.test(hint) || !isSuccess;
+      if (isSuccess) responses.push(["default", defaultResponse]);
+      if (isError) errors.push(["default", defaultResponse]);
+    }
+
+    return { Responses: responses, Errors: errors };
+  }
+
+  private visitSchema(
+    schema: IR.SchemaObject,
+    path: string[],
+    enums: EnumInfo[],
+    parent?: IR.SchemaObject,
+  ): void {
+    // Referenced schemas are visited under their own component name
+    if (schema.$ref) return;
+
+    if (schema.type === "enum") {
+      const enumInfo = this.createEnumInfo(schema, path, parent);
+      if (enumInfo) {
+        enums.push(enumInfo);
+      }
+      return;
+    }
+
+    // Array items and allOf/anyOf/oneOf members share the parent path and,
+    // e.g. for nullable enums, its description
+    for (const item of schema.items ?? []) {
+      this.visitSchema(item, path, enums, schema);
+    }
+
+    // So do the values of a map, typed as `{ [key: string]: … }`
+    if (schema.additionalProperties) {
+      this.visitSchema(schema.additionalProperties, path, enums, schema);
+    }
+
+    for (const [propertyName, property] of Object.entries(
+      schema.properties ?? {},
+    )) {
+      this.visitSchema(property, [...path, propertyName], enums);
+    }
+  }
+
+  private createEnumInfo(
+    schema: IR.SchemaObject,
+    path: string[],
+    parent?: IR.SchemaObject,
+  ): EnumInfo | null {
+    const values: Set<EnumValue> = new Set();
+    const valueMetadata: EnumValueMetadata[] = [];
+
+    for (const item of schema.items ?? []) {
+      if (
+        (typeof item.const === "string" ||
+          typeof item.const === "number" ||
+          typeof item.const === "boolean" ||
+          item.const === null) &&
+        !values.has(item.const)
+      ) {
+        values.add(item.const);
+        if (item.title || item.description) {
+          valueMetadata.push({
+            value: item.const,
+            name: item.title,
+            description: item.description,
+          });
+        }
+      }
+    }
+
+    if (![...values].some((value) => value !== null)) return null;
+
+    const enumValues = Array.from(values);
+    const originalTypePath =
+      path.length === 1 ? `export type ${path[0]}` : path.join(".");
+    const description = schema.description ?? parent?.description;
+    const deprecated = schema.deprecated ?? parent?.deprecated;
+
+    return {
+      name: this.semanticNaming.generateName(enumValues, originalTypePath),
+      values: enumValues,
+      originalTypePath,
+      valueKind: getEnumValueKind(enumValues),
+      ...(description && { description }),
+      ...(deprecated && { deprecated }),
+      ...(valueMetadata.length > 0 && { valueMetadata }),
+    };
+  }
+}
@@ -0,0 +1,140 @@
+// Mirrors the PascalCase conversion and identifier sanitising of
+// @hey-api/openapi-ts, so spec-sourced type paths name the exact types
+// `@hey-api/typescript` declares
+
+const UPPERCASE = /[\p{Lu}]/u;
+const LOWERCASE = /[\p{Ll}]/u;
+const SEPARATORS = /[_.\- `\\[\]{}\\/]+/;
+const LEADING_SEPARATORS = new RegExp(`^${SEPARATORS.source}`);
+const WORD_START = /([\p{Alpha}\p{N}_]|$)/u;
+const SEPARATED_WORDS = new RegExp(
+  `${SEPARATORS.source}${WORD_START.source}`,
+  "gu",
+);
+const DIGIT_WORDS = new RegExp(`\\d+${WORD_START.source}`, "gu");
+
+// Globals openapi-ts prefixes with `_`; only the capitalised ones can come
+// out of a PascalCase conversion
+const RESERVED_TYPE_NAMES = new Set([
+  "Array",
+  "Buffer",
+  "Date",
+  "Error",
+  "Function",
+  "JSON",
+  "Map",
+  "Math",
+  "Object",
+  "Promise",
+  "RegExp",
+  "Set",
+  "WeakMap",
+  "WeakSet",
+]);
+
+/**
+ * Marks word boundaries inside camel-cased names with `-`, treating runs of
+ * capitals as one word, e.g. `HTTPStatus` becomes `HTTP-Status`
+ */
+function separateWords(value: string): string {
+  let result = value;
+  let wasLower = false;
+  let wasUpper = false;
+  let wasUpperBefore = false;
+
+  for (let index = 0; index < result.length; index++) {
+    const char = result[index];
+    const nearSeparator = index > 2 ? result[index - 3] === "-" : true;
+    let nextIndex = index + 1;
+    let next = result[nextIndex];
+    while (next && SEPARATORS.test(next)) {
+      nextIndex += 1;
+      next = result[nextIndex];
+    }
+    const separated = nextIndex !== index + 1;
+
+    if (
+      UPPERCASE.test(char) &&
+      (wasLower || (next && !separated && next !== "s" && LOWERCASE.test(next)))
+    ) {
+      result = `${result.slice(0, index)}-${result.slice(index)}`;
+      index++;
+      wasUpperBefore = wasUpper;
+      wasLower = false;
+      wasUpper = true;
+    } else if (
+      wasUpper &&
+      wasUpperBefore &&
+      LOWERCASE.test(char) &&
+      !nearSeparator &&
+      !(char === "s" && (!next || next.toLocaleLowerCase() !== next))
+    ) {
+      result = `${result.slice(0, index - 1)}-${result.slice(index - 1)}`;
+      wasUpperBefore = wasUpper;
+      wasLower = true;
+      wasUpper = false;
+    } else {
+      const lower = char.toLocaleLowerCase();
+      const upper = char.toLocaleUpperCase();
+      wasUpperBefore = wasUpper;
+      wasLower = lower === char && upper !== char;
+      wasUpper = upper === char && lower !== char;
+    }
+  }
+
+  return result;
+}
+
+function toPascalCase(value: string): string {
+  let result = value.trim();
+  if (!result) return "";
+  if (result.length === 1) {
+    return SEPARATORS.test(result) ? "" : result.toLocaleUpperCase();
+  }
+
+  if (result !== result.toLocaleLowerCase()) {
+    result = separateWords(result);
+  }
+  result = result.replace(LEADING_SEPARATORS, "").toLocaleLowerCase();
+  result = `${result.charAt(0).toLocaleUpperCase()}${result.slice(1)}`;
+  result = result.replaceAll(DIGIT_WORDS, (match, _word, offset: number) =>
+    ["_", "-", "."].includes(result.charAt(offset + match.length))
+      ? match
+      : match.toLocaleUpperCase(),
+  );
+  return result.replaceAll(SEPARATED_WORDS, (_match, word: string) =>
+    word.toLocaleUpperCase(),
+  );
+}
+
+function sanitize(typeName: string): string {
+  const identifier = typeName.replace(/[^$\u200c\u200d\p{ID_Continue}]/gu, "_");
+
+  if (/^[^$_\p{ID_Start}]/u.test(identifier)) {
+    return `_${identifier}`;
+  }
+  return RESERVED_TYPE_NAMES.has(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Names types in the order `@hey-api/typescript` declares them, e.g.
+ * `HttpStatus` for `HTTPStatus`, `PetStoreItem` for `pet_store-item` and
+ * `CreateJobData` for the `Data` of operation `createJob`. A name that is
+ * already taken gets the next free count, e.g. `Page2` for a `page`
+ * parameter next to a `Page` schema.
+ */
+export function createTypeNamer(): (name: string, suffix?: string) => string {
+  const taken = new Set<string>();
+
+  return (name, suffix) => {
+    const typeName = suffix
+      ? toPascalCase(`${toPascalCase(name)}${suffix}`)
+      : toPascalCase(name);
+    let candidate = typeName;
+    for (let count = 2; taken.has(candidate); count++) {
+      candidate = `${typeName}${count}`;
+    }
+    taken.add(candidate);
+    return sanitize(candidate);
+  };
+}
@@ -1,3 +1,5 @@
+import type { LogLevel, Logger } from "./logger.js";
+
 export interface Config {
   /**
    * Plugin name. Must be unique.
@@ -10,16 +12,48 @@ export interface Config {
   output?: string;
 
   /**
-   * Whether to include only specific enum patterns
+   * Appended to relative imports in the generated modules, e.g. `.js` for
+   * Node ESM. Defaults to the openapi-ts `output.importFileExtension` where
+   * supported, else imports have no extension.
+   */
+  importFileExtension?: string;
+
+  /**
+   * Where enums are extracted from. `spec` walks the parsed OpenAPI
+   * specification, `types` scans the generated `types.gen.ts` file.
+   * Falls back to `types` when the parsed specification is not available.
+   * @default 'spec'
+   */
+  source?: "spec" | "types";
+
+  /**
+   * How `types.gen.ts` is parsed when enums are extracted from it.
+   * `ast` uses the TypeScript compiler API, `line` is the legacy line scanner.
+   * @default 'ast'
+   */
+  typesParser?: "ast" | "line";
+
+  /**
+   * Whether to include only specific enum patterns. Patterns are matched
+   * against the generated name, the original type path
+   * (e.g. `'Get*Data.query.*'`) and the source schema name, see
+   * {@link EnumPattern}.
    * @default undefined (includes all enums)
    */
-  includePatterns?: string[];
+  includePatterns?: EnumPattern[];
 
   /**
-   * Whether to exclude specific enum patterns
+   * Whether to exclude specific enum patterns, matched like `includePatterns`
    * @default undefined (excludes none)
    */
-  excludePatterns?: string[];
+  excludePatterns?: EnumPattern[];
+
+  /**
+   * Predicate applied after `includePatterns` and `excludePatterns`.
+   * Return `false` to drop an enum.
+   * @default undefined (keeps all enums)
+   */
+  filter?: (enumInfo: EnumInfo) => boolean;
 
   /**
    * Prefix for generated array constants
@@ -28,11 +62,174 @@ export interface Config {
   arrayPrefix?: string;
 
   /**
-   * Whether to generate TypeScript enum objects along with arrays
+   * How array names are pluralised, e.g. `userStatus` -> `userStatuses`
+   * @default { strategy: 'auto' }
+   */
+  pluralization?: PluralizationOptions;
+
+  /**
+   * Exact array identifiers keyed by `originalTypePath`
+   * (e.g. `'GetPetsData.query.status'`) or, for standalone enum schemas,
+   * by schema name. Applied before deduplication, so conflicting names are
+   * still resolved.
+   * @default undefined
+   */
+  overrides?: Record<string, string>;
+
+  /**
+   * Callback choosing the array identifier of an enum. Receives the enum
+   * (values, path, semantic name) and the proposed identifier; return
+   * `undefined` to keep the proposal. Not called for `overrides` entries.
+   * @default undefined
+   */
+  naming?: EnumNamingHook;
+
+  /**
+   * Order of the values in generated arrays and enum objects, see
+   * {@link EnumValueOrder}
+   * @default 'spec'
+   */
+  valueOrder?: EnumValueOrder;
+
+  /**
+   * Whether to generate TypeScript enum objects along with arrays.
+   * Each array gets a frozen `const` object keyed by a name derived from
+   * the value (e.g. `UserStatuses.InProgress = 'in_progress'`) and a
+   * matching type alias.
    * @default false
    */
   generateEnumObjects?: boolean;
 
+  /**
+   * Casing of the keys in generated enum objects
+   * @default 'PascalCase'
+   */
+  enumObjectKeyCase?: "PascalCase" | "SCREAMING_SNAKE_CASE";
+
+  /**
+   * Whether to generate an element type alias and an `is…` type guard
+   * for every array, e.g. `type UserStatus` and `isUserStatus(value)`
+   * @default false
+   */
+  generateTypeGuards?: boolean;
+
+  /**
+   * Whether to generate `assert…` and `parse…` helpers that throw an error
+   * listing the allowed values. Implies `generateTypeGuards`.
+   * @default false
+   */
+  generateAssertions?: boolean;
+
+  /**
+   * Whether to import the source types from `types.gen.ts` and emit
+   * compile-time checks, so `tsc` fails when an array and the type it was
+   * extracted from diverge. `null` members are not compared.
+   * @default false
+   */
+  generateTypeChecks?: boolean;
+
+  /**
+   * How generated enums are split into modules, see {@link OutputStrategy}.
+   * `tag` and `operation` rely on `source: 'spec'`.
+   * @default 'single'
+   */
+  outputStrategy?: OutputStrategy;
+
+  /**
+   * Whether to write a labels module per enum, e.g. `labels/statusLabels.ts`
+   * exporting `statusLabels: Record<(typeof statusValues)[number], string>`.
+   * Labels come from `x-enum-descriptions` or `x-enum-varnames` and are
+   * otherwise humanised from the value (`in_progress` -> `In progress`).
+   * @default false
+   */
+  generateLabels?: boolean;
+
+  /**
+   * Directory of the labels modules, relative to the output path
+   * @default 'labels'
+   */
+  labelsDirectory?: string;
+
+  /**
+   * Validation library to emit a schema per enum for, e.g.
+   * `userStatusSchema = z.enum(userStatuses)`. Schemas reuse the arrays;
+   * enums with non-string values become unions of literals.
+   * @default undefined (no schemas)
+   */
+  validators?: ValidatorLibrary;
+
+  /**
+   * Whether schemas are written into the enum module or a sibling
+   * `<module>.validators.ts` module, keeping the library out of the enums
+   * @default 'inline'
+   */
+  validatorsOutput?: "inline" | "separate";
+
+  /**
+   * Whether to write `enums.report.json` listing every array with the paths
+   * merged into it, renames caused by conflicts and filtered-out enums
+   * @default false
+   */
+  generateReport?: boolean;
+
+  /**
+   * Whether to write `enums.json`, mapping every array name to its values
+   * and source paths, for consumers outside TypeScript
+   * @default false
+   */
+  generateJson?: boolean;
+
+  /**
+   * Whether to write `enums.schema.json`, a JSON Schema document with one
+   * `$defs` entry per array
+   * @default false
+   */
+  generateJsonSchema?: boolean;
+
+  /**
+   * Persist the resolved names in a lockfile so that later runs keep them:
+   * an enum whose value set (or, failing that, one of whose paths) is in the
+   * lockfile reuses its locked names, and only new enums get fresh ones.
+   * `true` uses `enums.lock.json` in the working directory, a string is the
+   * lockfile path. Keep it outside the output directory, which openapi-ts
+   * cleans on every run.
+   * @default false
+   */
+  namingLock?: boolean | string;
+
+  /**
+   * Ignore the existing lockfile, derive every name afresh and rewrite it
+   * @default false
+   */
+  relockNames?: boolean;
+
+  /**
+   * Whether to fail, before writing anything, when a value was removed from
+   * an array that is still generated. Compares with the lockfile, so it needs
+   * `namingLock`; other changes are only logged.
+   * @default false
+   */
+  failOnBreaking?: boolean;
+
+  /**
+   * Whether failures, such as a missing types file or an unresolvable name
+   * clash, throw and fail the openapi-ts run instead of being logged
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Called with every failure, before it is thrown in `strict` mode and
+   * instead of logging it otherwise
+   */
+  onError?: (error: Error) => void;
+
+  /**
+   * Level of the console logger, or a logger receiving every message.
+   * Defaults to the openapi-ts `logs.level`, or `debug` with `debug: true`.
+   */
+  logger?: LogLevel | Logger;
+
   /**
    * Enable debug logging for enum generation
    * @default false
@@ -40,8 +237,220 @@ export interface Config {
   debug?: boolean;
 }
 
+/**
+ * Include/exclude pattern. Strings containing `*` or `?` are globs where
+ * `*` stays within a path segment and `**` spans segments; other strings
+ * match a substring of the generated name or the exact path or schema name.
+ */
+export type EnumPattern = string | RegExp;
+
+export type EnumValue = string | number | boolean | null;
+
+export type EnumValueKind = "string" | "number" | "boolean" | "null" | "mixed";
+
 export interface EnumInfo {
   name: string;
-  values: string[];
+  values: EnumValue[];
   originalTypePath: string;
+  /**
+   * Exact identifier of the generated array, set by `overrides` or the
+   * `naming` hook. Skips pluralisation and `arrayPrefix`.
+   */
+  arrayName?: string;
+  /**
+   * Kind of the literal values, `mixed` when they differ.
+   * Inferred from `values` when omitted.
+   */
+  valueKind?: EnumValueKind;
+  /**
+   * Schema `description`, emitted as JSDoc
+   */
+  description?: string;
+  /**
+   * Schema `deprecated` flag, emitted as `@deprecated`
+   */
+  deprecated?: boolean;
+  /**
+   * Names and descriptions of individual values
+   */
+  valueMetadata?: EnumValueMetadata[];
+  /**
+   * Id of the operation the enum belongs to, set for operation parameters,
+   * bodies and responses
+   */
+  operationId?: string;
+  /**
+   * Tags of that operation
+   */
+  tags?: string[];
+}
+
+export interface EnumValueMetadata {
+  value: EnumValue;
+  /**
+   * From `x-enum-varnames` or `x-enumNames`
+   */
+  name?: string;
+  /**
+   * From `x-enum-descriptions`
+   */
+  description?: string;
+}
+
+/**
+ * Suffix strategy for array names:
+ * - `auto`: pluralise names ending in a well-known word (`Status`, `Type`,
+ *   `Model`, `Role`, `Source`, `Mode` or a custom irregular), `Values` otherwise
+ * - `plural`: always pluralise the last word (`Values` for uncountable words)
+ * - `Values` / `List`: append the suffix
+ * - `none`: use the name as is
+ */
+export type ArrayNameSuffix = "auto" | "plural" | "Values" | "List" | "none";
+
+export interface PluralizationOptions {
+  /**
+   * @default 'auto'
+   */
+  strategy?: ArrayNameSuffix;
+  /**
+   * Irregular plurals, singular to plural, e.g. `{ person: 'people' }`
+   */
+  irregular?: Record<string, string>;
+  /**
+   * Words without a plural form, e.g. `['metadata']`
+   */
+  uncountable?: string[];
+}
+
+/**
+ * Value ordering:
+ * - `spec`: the order declared in the specification
+ * - `alphabetical`: numbers ascending, everything else by code unit
+ * - `natural`: like `alphabetical`, but case-insensitive and with embedded
+ *   numbers compared numerically (`v2` before `v10`)
+ * - a comparator for custom orders
+ */
+export type EnumValueOrder =
+  | "spec"
+  | "alphabetical"
+  | "natural"
+  | ((a: EnumValue, b: EnumValue) => number);
+
+/**
+ * How generated enums are split into modules:
+ * - `single`: one `${output}.ts` file
+ * - `tag`: one file per operation tag
+ * - `schema`: one file per source schema or operation type
+ * - `operation`: one file per operation
+ *
+ * Multi-file strategies write to an `${output}/` directory with a barrel
+ * `index.ts`; enums without an operation (or tag) go to `shared.ts`.
+ */
+export type OutputStrategy = "single" | "tag" | "schema" | "operation";
+
+export type ValidatorLibrary = "zod" | "valibot";
+
+/**
+ * What a generation run produced and why. Entries are sorted so that the
+ * report only changes when the output does.
+ */
+export interface GenerationReport {
+  arrays: GenerationReportArray[];
+  renames: GenerationReportRename[];
+  filtered: GenerationReportFilteredEnum[];
+}
+
+export interface GenerationReportArray {
+  /**
+   * Final array identifier
+   */
+  name: string;
+  values: EnumValue[];
+  /**
+   * Every `originalTypePath` folded into the array
+   */
+  sourcePaths: string[];
+  /**
+   * Why the name of this enum was kept when several were merged
+   */
+  mergeReason?: string;
+}
+
+export interface GenerationReportRename {
+  originalTypePath: string;
+  /**
+   * Name the enum would have had on its own
+   */
+  from: string;
+  to: string;
+  /**
+   * - `name-conflict`: enums with different values shared a name
+   * - `identifier-conflict`: another exported identifier had the name
+   * - `invalid-identifier`: the name was not a legal identifier
+   * - `locked`: the naming lock kept an earlier name
+   */
+  reason:
+    | "name-conflict"
+    | "identifier-conflict"
+    | "invalid-identifier"
+    | "locked";
+}
+
+export interface GenerationReportFilteredEnum {
+  originalTypePath: string;
+  name: string;
+  reason: "includePatterns" | "excludePatterns" | "filter";
+}
+
+export type EnumNamingHook = (
+  enumInfo: EnumInfo,
+  proposedName: string,
+) => string | undefined;
+
+/**
+ * Contents of the naming lockfile, entries sorted by name
+ */
+export interface NamingLock {
+  version: 1;
+  arrays: NamingLockEntry[];
+}
+
+export interface NamingLockEntry {
+  /**
+   * Array identifier
+   */
+  name: string;
+  objectName: string;
+  typeName: string;
+  labelsName: string;
+  schemaName: string;
+  values: EnumValue[];
+  sourcePaths: string[];
+}
+
+/**
+ * Differences between the arrays of two runs
+ */
+export interface EnumChanges {
+  addedArrays: string[];
+  removedArrays: string[];
+  renamedArrays: EnumArrayRename[];
+  addedValues: EnumValueChange[];
+  /**
+   * Values dropped from arrays that are still generated
+   */
+  removedValues: EnumValueChange[];
+}
+
+export interface EnumArrayRename {
+  from: string;
+  to: string;
+}
+
+export interface EnumValueChange {
+  /**
+   * Current array identifier
+   */
+  name: string;
+  values: EnumValue[];
 }
@@ -0,0 +1,85 @@
+import type { EnumValue, EnumValueKind } from "./types.js";
+
+/**
+ * Returns the literal kind shared by all values, or `mixed` when they differ
+ */
+export function getEnumValueKind(values: EnumValue[]): EnumValueKind {
+  const kinds = new Set(
+    values.map((value) =>
+      value === null ? "null" : (typeof value as EnumValueKind),
+    ),
+  );
+  if (kinds.size === 1) {
+    return kinds.values().next().value as EnumValueKind;
+  }
+  return "mixed";
+}
+
+/**
+ * Orders numbers numerically and everything else by its string form
+ */
+export function compareEnumValues(a: EnumValue, b: EnumValue): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+const naturalCollator = new Intl.Collator("en", {
+  numeric: true,
+  sensitivity: "base",
+});
+
+/**
+ * Orders numbers numerically and everything else case-insensitively with
+ * embedded numbers compared by value, e.g. `v2` before `V10`
+ */
+export function compareEnumValuesNaturally(a: EnumValue, b: EnumValue): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  return (
+    naturalCollator.compare(String(a), String(b)) || compareEnumValues(a, b)
+  );
+}
+
+const STRING_ESCAPES: Record<string, string> = {
+  "\\": "\\\\",
+  "'": "\\'",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+  "\b": "\\b",
+  "\f": "\\f",
+  "\v": "\\v",
+};
+
+/**
+ * Serialises a value as a TypeScript literal. Strings are single-quoted with
+ * backslashes, quotes, control characters, line separators and lone
+ * surrogates escaped, so any value round-trips exactly.
+ */
+export function formatEnumValue(value: EnumValue): string {
+  if (typeof value === "string") {
+    const escaped = value.replace(
+      /[\\'\u0000-\u001f\u007f\u2028\u2029]|[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/g,
+      (char) =>
+        STRING_ESCAPES[char] ??
+        `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`,
+    );
+    return `'${escaped}'`;
+  }
+  return String(value);
+}
+
+/**
+ * Builds a key that identifies a value set regardless of member order
+ */
+export function getValueSetKey(values: EnumValue[]): string {
+  return values
+    .map((value) => JSON.stringify(value))
+    .sort()
+    .join("|");
+}
@@ -0,0 +1,64 @@
+import { execFileSync } from "node:child_process";
+import {
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+
+describe("openapi-enum-arrays bin", () => {
+  let dir: string;
+  const bin = () => join(dir, "dist", "bin.js");
+
+  // Builds the package into a scratch directory laid out like an install
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "enum-arrays-bin-"));
+    writeFileSync(
+      join(dir, "package.json"),
+      readFileSync(join(root, "package.json")),
+    );
+    symlinkSync(join(root, "node_modules"), join(dir, "node_modules"), "dir");
+    execFileSync(process.execPath, [
+      join(root, "node_modules", "typescript", "bin", "tsc"),
+      "-p",
+      root,
+      "--outDir",
+      join(dir, "dist"),
+    ]);
+  }, 120_000);
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("prints the usage", () => {
+    const output = execFileSync(process.execPath, [bin(), "--help"], {
+      encoding: "utf-8",
+    });
+
+    expect(output).toContain("Usage: openapi-enum-arrays generate");
+  });
+
+  test("generates from a types file", () => {
+    const input = join(dir, "types.gen.ts");
+    const out = join(dir, "enums.ts");
+    writeFileSync(input, "export type Pet = { kind?: 'cat' | 'dog' };");
+
+    execFileSync(
+      process.execPath,
+      [bin(), "generate", "--input", input, "--out", out],
+      { encoding: "utf-8" },
+    );
+
+    expect(readFileSync(out, "utf-8")).toContain(
+      "export const petKindValues = ['cat', 'dog'] as const",
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "vitest";
+import { diffNamingLocks, formatEnumChanges } from "../src/changes";
+import type { NamingLock, NamingLockEntry } from "../src/types";
+
+const entry = (
+  name: string,
+  values: NamingLockEntry["values"],
+  sourcePaths: string[],
+): NamingLockEntry => ({
+  name,
+  objectName: name,
+  typeName: name,
+  labelsName: `${name}Labels`,
+  schemaName: `${name}Schema`,
+  values,
+  sourcePaths,
+});
+
+const lock = (...arrays: NamingLockEntry[]): NamingLock => ({
+  version: 1,
+  arrays,
+});
+
+describe("diffNamingLocks", () => {
+  test("reports added and removed arrays and values", () => {
+    const changes = diffNamingLocks(
+      lock(
+        entry(
+          "statusValues",
+          ["active", "inactive", "banned"],
+          ["User.status"],
+        ),
+        entry("legacyValues", ["a", "b"], ["Legacy.kind"]),
+      ),
+      lock(
+        entry(
+          "statusValues",
+          ["active", "inactive", "pending"],
+          ["User.status"],
+        ),
+        entry("priorityValues", [1, 2], ["Task.priority"]),
+      ),
+    );
+
+    expect(changes).toEqual({
+      addedArrays: ["priorityValues"],
+      removedArrays: ["legacyValues"],
+      renamedArrays: [],
+      addedValues: [{ name: "statusValues", values: ["pending"] }],
+      removedValues: [{ name: "statusValues", values: ["banned"] }],
+    });
+  });
+
+  test("detects renames by value set, then by source path", () => {
+    const changes = diffNamingLocks(
+      lock(
+        entry("queryFormatValues", ["csv", "json"], ["GetExport.query.format"]),
+        entry("modeValues", [1, 2], ["Job.mode"]),
+      ),
+      lock(
+        entry("formatValues", ["json", "csv"], ["PostExport.body.format"]),
+        entry("jobModeValues", [1, 3], ["Job.mode"]),
+      ),
+    );
+
+    expect(changes.renamedArrays).toEqual([
+      { from: "queryFormatValues", to: "formatValues" },
+      { from: "modeValues", to: "jobModeValues" },
+    ]);
+    expect(changes.removedValues).toEqual([
+      { name: "jobModeValues", values: [2] },
+    ]);
+    expect(changes.addedArrays).toEqual([]);
+    expect(changes.removedArrays).toEqual([]);
+  });
+});
+
+describe("formatEnumChanges", () => {
+  test("lists breaking changes first", () => {
+    expect(
+      formatEnumChanges({
+        addedArrays: ["priorityValues"],
+        removedArrays: ["legacyValues"],
+        renamedArrays: [{ from: "modeValues", to: "jobModeValues" }],
+        addedValues: [{ name: "statusValues", values: ["pending"] }],
+        removedValues: [{ name: "statusValues", values: ["banned", 2] }],
+      }),
+    ).toEqual([
+      "removed 'banned', 2 from statusValues",
+      "removed legacyValues",
+      "renamed modeValues to jobModeValues",
+      "added 'pending' to statusValues",
+      "added priorityValues",
+    ]);
+  });
+});
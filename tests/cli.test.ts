@@ -0,0 +1,142 @@
+import {
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { runCli } from "../src/cli";
+
+const TYPES = `export type PetStatus = 'available' | 'sold';
+
+export type Pet = {
+  kind?: 'cat' | 'dog';
+};
+`;
+
+const SPEC = `openapi: 3.0.0
+info:
+  title: Pets
+  version: "1"
+paths: {}
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        kind:
+          type: string
+          enum: [cat, dog]
+`;
+
+describe("runCli", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "enum-arrays-cli-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("generates from a types file", async () => {
+    const input = join(dir, "types.gen.ts");
+    const out = join(dir, "enums.ts");
+    writeFileSync(input, TYPES);
+
+    const exitCode = await runCli([
+      "generate",
+      "--input",
+      input,
+      "--out",
+      out,
+      "--type-guards",
+    ]);
+
+    expect(exitCode).toBe(0);
+    const content = readFileSync(out, "utf-8");
+    expect(content).toContain(
+      "export const petKindValues = ['cat', 'dog'] as const",
+    );
+    expect(content).toContain("export const isPetKind");
+  });
+
+  test("generates from an OpenAPI document", async () => {
+    const input = join(dir, "openapi.yaml");
+    const out = join(dir, "src", "enums.ts");
+    writeFileSync(input, SPEC);
+
+    expect(await runCli(["generate", "--input", input, "--out", out])).toBe(0);
+    expect(readFileSync(out, "utf-8")).toContain(
+      "export const petKindValues = ['cat', 'dog'] as const",
+    );
+  });
+
+  test("exits with 1 in check mode when the output is stale", async () => {
+    const input = join(dir, "types.gen.ts");
+    const out = join(dir, "enums.ts");
+    writeFileSync(input, TYPES);
+    const args = ["generate", "--input", input, "--out", out, "--check"];
+
+    expect(await runCli(args)).toBe(1);
+    expect(await runCli(args.slice(0, -1))).toBe(0);
+    expect(await runCli(args)).toBe(0);
+
+    writeFileSync(input, TYPES.replace("'dog'", "'dog' | 'bird'"));
+    expect(await runCli(args)).toBe(1);
+  });
+
+  test("leaves unchanged files untouched", async () => {
+    const input = join(dir, "types.gen.ts");
+    const out = join(dir, "enums.ts");
+    const args = ["generate", "--input", input, "--out", out];
+    writeFileSync(input, TYPES);
+    await runCli(args);
+    utimesSync(out, 0, 0);
+
+    await runCli(args);
+    writeFileSync(input, `${TYPES}// cats\n`);
+    await runCli(args);
+    expect(statSync(out).mtimeMs).toBe(0);
+
+    await runCli([...args, "--type-guards"]);
+    expect(statSync(out).mtimeMs).toBeGreaterThan(0);
+  });
+
+  test("rejects bad usage with exit code 2", async () => {
+    expect(await runCli([])).toBe(2);
+    expect(await runCli(["generate", "--input", "openapi.yaml"])).toBe(2);
+    expect(
+      await runCli([
+        "generate",
+        "--input",
+        "openapi.yaml",
+        "--out",
+        "enums.ts",
+        "--value-order",
+        "random",
+      ]),
+    ).toBe(2);
+    expect(await runCli(["--help"])).toBe(0);
+  });
+
+  test("exits with 1 when the input is missing", async () => {
+    expect(
+      await runCli([
+        "generate",
+        "--input",
+        join(dir, "missing.ts"),
+        "--out",
+        join(dir, "enums.ts"),
+      ]),
+    ).toBe(1);
+  });
+});
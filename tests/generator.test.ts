@@ -1,7 +1,48 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import ts from "typescript";
 import { describe, expect, test } from "vitest";
-import { CodeGenerator } from "../src/generator";
+import { CodeGenerator, type GeneratorOptions } from "../src/generator";
 import type { EnumInfo } from "../src/types";
 
+// Transpiles and evaluates generated code, returning its exports
+const evaluateModule = (code: string): Record<string, unknown> => {
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS },
+  });
+  const exports: Record<string, unknown> = {};
+  new Function("exports", outputText)(exports);
+  return exports;
+};
+
+// Type-checks a set of modules written to a temporary directory
+const typeCheck = (files: Record<string, string>): string[] => {
+  const dir = mkdtempSync(join(tmpdir(), "enum-arrays-"));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(dir, name)), { recursive: true });
+      writeFileSync(join(dir, name), content);
+    }
+    const program = ts.createProgram(
+      Object.keys(files).map((name) => join(dir, name)),
+      {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2022,
+        lib: ["lib.es2022.d.ts"],
+        types: [],
+      },
+    );
+    return ts
+      .getPreEmitDiagnostics(program)
+      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+};
+
 // Type for accessing private methods in tests
 type CodeGeneratorWithPrivates = CodeGenerator & {
   extractContextForConflict(path: string): string | null;
@@ -31,7 +72,7 @@ describe("CodeGenerator", () => {
         `export const statusValues = ['active', 'inactive', 'pending'] as const`,
       );
       expect(result).toContain(
-        `export const colorValues = ['blue', 'green', 'red'] as const`,
+        `export const colorValues = ['red', 'blue', 'green'] as const`,
       );
     });
 
@@ -47,8 +88,175 @@ describe("CodeGenerator", () => {
       const result = generator.generateEnumArrays(enums);
 
       expect(result).toContain(
-        `export const orderStatuses = ['COMPLETED', 'PENDING'] as const`,
+        `export const orderStatuses = ['PENDING', 'COMPLETED'] as const`,
+      );
+    });
+
+    test("emits numeric, boolean and null literals without quoting", () => {
+      const enums: EnumInfo[] = [
+        {
+          name: "Priority",
+          values: [10, 2, 1],
+          originalTypePath: "export type Priority",
+        },
+        {
+          name: "Flag",
+          values: [true, false],
+          originalTypePath: "export type Flag",
+        },
+        {
+          name: "Code",
+          values: ["a", 0, null],
+          originalTypePath: "export type Code",
+        },
+      ];
+
+      const result = generator.generateEnumArrays(enums, {
+        valueOrder: "alphabetical",
+      });
+
+      expect(result).toContain(
+        `export const priorityValues = [1, 2, 10] as const`,
+      );
+      expect(result).toContain(
+        `export const flagValues = [false, true] as const`,
+      );
+      expect(result).toContain(
+        `export const codeValues = [0, 'a', null] as const`,
+      );
+    });
+
+    test("escapes hostile string values so they round-trip exactly", () => {
+      const hostileValues = [
+        "",
+        "it's",
+        "back\\slash",
+        "line\nbreak",
+        "carriage\rreturn",
+        "tab\there",
+        "${injected}",
+        "`backtick`",
+        '"double"',
+        "null\u0000byte",
+        "separator\u2028here",
+        "lone\ud800surrogate",
+        "emoji 🚀",
+        "ünïcödé",
+        "*/ comment close",
+      ];
+      const enums: EnumInfo[] = [
+        {
+          name: "Hostile",
+          values: hostileValues,
+          originalTypePath: "export type Hostile",
+        },
+      ];
+
+      const result = generator.generateEnumArrays(enums);
+      const { hostileValues: generated } = evaluateModule(result);
+
+      expect(
+        ts.transpileModule(result, { reportDiagnostics: true }).diagnostics,
+      ).toHaveLength(0);
+      expect([...(generated as string[])].sort()).toEqual(
+        [...hostileValues].sort(),
+      );
+      expect(result).toContain(`'it\\'s'`);
+      expect(result).toContain(`'line\\nbreak'`);
+    });
+
+    test("does not merge enums whose values differ only in type", () => {
+      const enums: EnumInfo[] = [
+        {
+          name: "Level",
+          values: ["1", "2"],
+          originalTypePath: "export type Level",
+        },
+        {
+          name: "Rank",
+          values: [1, 2],
+          originalTypePath: "export type Rank",
+        },
+      ];
+
+      const result = generator.generateEnumArrays(enums);
+
+      expect(result).toContain(
+        `export const levelValues = ['1', '2'] as const`,
       );
+      expect(result).toContain(`export const rankValues = [1, 2] as const`);
+    });
+
+    describe("pluralization", () => {
+      const enums: EnumInfo[] = [
+        {
+          name: "userCategory",
+          values: ["a", "b"],
+          originalTypePath: "User.category",
+        },
+        {
+          name: "orderStatus",
+          values: ["open", "closed"],
+          originalTypePath: "Order.status",
+        },
+        {
+          name: "status",
+          values: ["on", "off"],
+          originalTypePath: "export type Status",
+        },
+        {
+          name: "itemMetadata",
+          values: ["x", "y"],
+          originalTypePath: "Item.metadata",
+        },
+      ];
+
+      const arrayNames = (result: string) =>
+        Array.from(result.matchAll(/export const (\w+) =/g), (m) => m[1]);
+
+      test("auto strategy pluralises well-known words only", () => {
+        const result = generator.generateEnumArrays(enums);
+
+        expect(arrayNames(result)).toEqual([
+          "userCategoryValues",
+          "orderStatuses",
+          "statusValues",
+          "itemMetadataValues",
+        ]);
+      });
+
+      test("auto strategy pluralises words with custom rules", () => {
+        const result = generator.generateEnumArrays(enums, {
+          pluralization: { irregular: { category: "categories" } },
+        });
+
+        expect(arrayNames(result)[0]).toBe("userCategories");
+      });
+
+      test("plural strategy pluralises the last word", () => {
+        const result = generator.generateEnumArrays(enums, {
+          pluralization: { strategy: "plural" },
+        });
+
+        expect(arrayNames(result)).toEqual([
+          "userCategories",
+          "orderStatuses",
+          "statuses",
+          "itemMetadataValues",
+        ]);
+      });
+
+      test.each([
+        ["Values", "orderStatusValues"],
+        ["List", "orderStatusList"],
+        ["none", "orderStatus"],
+      ] as const)("%s strategy", (strategy, expected) => {
+        const result = generator.generateEnumArrays([enums[1]], {
+          pluralization: { strategy },
+        });
+
+        expect(arrayNames(result)).toEqual([expected]);
+      });
     });
 
     test("handles custom array prefix", () => {
@@ -69,6 +277,1314 @@ describe("CodeGenerator", () => {
       );
     });
 
+    test("generates frozen enum objects and type aliases when enabled", () => {
+      const enums: EnumInfo[] = [
+        {
+          name: "UserStatus",
+          values: ["active", "in_progress", "HTTP_ERROR", "in-progress"],
+          originalTypePath: "export type UserStatus",
+        },
+      ];
+
+      const result = generator.generateEnumArrays(enums, {
+        generateEnumObjects: true,
+      });
+
+      expect(result).toContain(
+        `export const userStatuses = ['active', 'in_progress', 'HTTP_ERROR', 'in-progress'] as const`,
+      );
+      expect(result).toContain(
+        [
+          "export const UserStatuses = Object.freeze({",
+          "  Active: 'active',",
+          "  InProgress: 'in_progress',",
+          "  HttpError: 'HTTP_ERROR',",
+          "  InProgress2: 'in-progress',",
+          "} as const)",
+          "export type UserStatuses = (typeof UserStatuses)[keyof typeof UserStatuses]",
+        ].join("\n"),
+      );
+
+      const { UserStatuses } = evaluateModule(result);
+      expect(Object.isFrozen(UserStatuses)).toBe(true);
+    });
+
+    test("derives SCREAMING_SNAKE_CASE keys for numeric and boolean values", () => {
+      const enums: EnumInfo[] = [
+        {
+          name: "Priority",
+          values: [-1, 0, 1.5, "", "lowPriority"],
+          originalTypePath: "export type Priority",
+        },
+        {
+          name: "Flag",
+          values: [true, false],
+          originalTypePath: "export type Flag",
+        },
+      ];
+
+      const result = generator.generateEnumArrays(enums, {
+        generateEnumObjects: true,
+        enumObjectKeyCase: "SCREAMING_SNAKE_CASE",
+      });
+
+      expect(result).toContain("  MINUS_1: -1,");
+      expect(result).toContain("  _0: 0,");
+      expect(result).toContain("  _1_POINT_5: 1.5,");
+      expect(result).toContain("  EMPTY: '',");
+      expect(result).toContain("  LOW_PRIORITY: 'lowPriority',");
+      expect(result).toContain("  FALSE: false,");
+      expect(result).toContain("  TRUE: true,");
+    });
+
+    test("generates element types and type guards when enabled", () => {
+      const enums: EnumInfo[] = [
+        {
+          name: "UserStatus",
+          values: ["active", "inactive"],
+          originalTypePath: "export type UserStatus",
+        },
+      ];
+
+      const result = generator.generateEnumArrays(enums, {
+        generateTypeGuards: true,
+      });
+
+      expect(result).toContain(
+        "export type UserStatus = (typeof userStatuses)[number]",
+      );
+      expect(result).toContain(
+        "export const isUserStatus = (value: unknown): value is UserStatus =>",
+      );
+      expect(result).not.toContain("assertUserStatus");
+
+      const { isUserStatus } = evaluateModule(result) as {
+        isUserStatus: (value: unknown) => boolean;
+      };
+      expect(isUserStatus("active")).toBe(true);
+      expect(isUserStatus("deleted")).toBe(false);
+      expect(isUserStatus(undefined)).toBe(false);
+    });
+
+    test("generates assert and parse helpers listing allowed values", () => {
+      const enums: EnumInfo[] = [
+        {
+          name: "Priority",
+          values: [1, 2, 3],
+          originalTypePath: "export type Priority",
+        },
+      ];
+
+      const result = generator.generateEnumArrays(enums, {
+        generateAssertions: true,
+      });
+
+      expect(result).toContain(
+        "export function assertPriority(value: unknown): asserts value is Priority {",
+      );
+      expect(result).toContain(
+        "export function parsePriority(value: unknown): Priority {",
+      );
+
+      const { parsePriority, assertPriority } = evaluateModule(result) as {
+        parsePriority: (value: unknown) => unknown;
+        assertPriority: (value: unknown) => void;
+      };
+      expect(parsePriority(2)).toBe(2);
+      expect(() => assertPriority("2")).toThrow(
+        'Invalid Priority: received "2", expected one of 1, 2, 3',
+      );
+    });
+
+    describe("generateTypeChecks", () => {
+      const typesGen = `
+export type Status = 'active' | 'inactive';
+export type User = {
+    role?: 'admin' | 'user' | null;
+    tags?: Array<'a' | 'b'>;
+};
+export type GetItemsData = {
+    query?: {
+        sort?: 'name' | 'date';
+    };
+};
+      `.trim();
+      const enums: EnumInfo[] = [
+        {
+          name: "Status",
+          values: ["active", "inactive"],
+          originalTypePath: "export type Status",
+        },
+        {
+          name: "userRole",
+          values: ["admin", "user"],
+          originalTypePath: "User.role",
+        },
+        {
+          name: "userTags",
+          values: ["a", "b"],
+          originalTypePath: "User.tags",
+        },
+        {
+          name: "itemsSort",
+          values: ["name", "date"],
+          originalTypePath: "GetItemsData.query.sort",
+        },
+      ];
+
+      test("imports source types and emits satisfies clauses", () => {
+        const result = generator.generateEnumArrays(enums, {
+          generateTypeChecks: true,
+        });
+
+        expect(result).toContain(
+          "import type * as EnumArraysSourceTypes from './types.gen'",
+        );
+        expect(result).toContain(
+          "export const userRoles = ['admin', 'user'] as const satisfies readonly (EnumArraysMember<EnumArraysMember<EnumArraysSourceTypes.User>['role']> | null)[]",
+        );
+        expect(result).toContain("export type EnumArraysTypeChecks = [");
+        expect(
+          typeCheck({ "types.gen.ts": typesGen, "enums.gen.ts": result }),
+        ).toEqual([]);
+      });
+
+      test("fails to compile when an array misses a source member", () => {
+        const result = generator.generateEnumArrays(
+          [{ ...enums[3], values: ["name"] }],
+          { generateTypeChecks: true },
+        );
+
+        expect(
+          typeCheck({ "types.gen.ts": typesGen, "enums.gen.ts": result }),
+        ).toHaveLength(1);
+      });
+
+      test("fails to compile when an array has an unknown member", () => {
+        const result = generator.generateEnumArrays(
+          [{ ...enums[0], values: ["active", "inactive", "deleted"] }],
+          { generateTypeChecks: true, typesImportPath: "./types.gen.js" },
+        );
+
+        expect(result).toContain("from './types.gen.js'");
+        expect(
+          typeCheck({ "types.gen.ts": typesGen, "enums.gen.ts": result }),
+        ).not.toHaveLength(0);
+      });
+
+      test("omits checks for paths without a source type", () => {
+        const result = generator.generateEnumArrays(
+          [{ ...enums[0], originalTypePath: "property: status" }],
+          { generateTypeChecks: true },
+        );
+
+        expect(result).not.toContain("EnumArraysSourceTypes");
+        expect(result).not.toContain("satisfies");
+      });
+
+      test("omits checks for source types the types module lacks", () => {
+        const result = generator.generateEnumArrays(
+          [
+            ...enums,
+            {
+              name: "pageValues",
+              values: ["first", "last"],
+              originalTypePath: "export type Page",
+            },
+            {
+              name: "jobState",
+              values: ["queued", "done"],
+              originalTypePath: "CreateJobResponses.200.state",
+            },
+          ],
+          {
+            generateTypeChecks: true,
+            sourceTypeNames: ["Status", "User", "GetItemsData"],
+          },
+        );
+
+        expect(result).not.toContain("EnumArraysSourceTypes.Page");
+        expect(result).not.toContain("EnumArraysSourceTypes.CreateJob");
+        expect(
+          typeCheck({ "types.gen.ts": typesGen, "enums.gen.ts": result }),
+        ).toEqual([]);
+      });
+
+      test("checks the values of maps", () => {
+        const result = generator.generateEnumArrays(
+          [
+            {
+              name: "petLabels",
+              values: ["red", "blue"],
+              originalTypePath: "Pet.labels",
+            },
+          ],
+          { generateTypeChecks: true },
+        );
+
+        expect(
+          typeCheck({
+            "types.gen.ts":
+              "export type Pet = { labels?: { [key: string]: 'red' | 'blue' } };",
+            "enums.gen.ts": result,
+          }),
+        ).toEqual([]);
+      });
+    });
+
+    describe("custom names", () => {
+      test("applies overrides by original type path and schema name", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "petstatusValues",
+            values: ["available", "sold"],
+            originalTypePath: "export type PetStatus",
+          },
+          {
+            name: "querySort",
+            values: ["name", "date"],
+            originalTypePath: "GetPetsData.query.sort",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          arrayPrefix: "api_",
+          overrides: {
+            PetStatus: "petStatuses",
+            "GetPetsData.query.sort": "petSortFields",
+          },
+        });
+
+        expect(result).toContain(
+          "export const petStatuses = ['available', 'sold'] as const",
+        );
+        expect(result).toContain(
+          "export const petSortFields = ['name', 'date'] as const",
+        );
+      });
+
+      test("passes enum info and proposed name to the naming hook", () => {
+        const calls: [string, string][] = [];
+        const enums: EnumInfo[] = [
+          {
+            name: "userRole",
+            values: ["admin", "user"],
+            originalTypePath: "User.role",
+          },
+          {
+            name: "orderStatus",
+            values: ["open", "closed"],
+            originalTypePath: "Order.status",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          overrides: { "Order.status": "orderStates" },
+          naming: (enumInfo, proposedName) => {
+            calls.push([enumInfo.originalTypePath, proposedName]);
+            return enumInfo.originalTypePath === "User.role"
+              ? "accountRoles"
+              : undefined;
+          },
+        });
+
+        expect(calls).toEqual([["User.role", "userRoles"]]);
+        expect(result).toContain(
+          "export const accountRoles = ['admin', 'user'] as const",
+        );
+        expect(result).toContain(
+          "export const orderStates = ['open', 'closed'] as const",
+        );
+      });
+
+      test("keeps the proposed name when the hook returns undefined", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "userRole",
+            values: ["admin", "user"],
+            originalTypePath: "User.role",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          naming: () => undefined,
+        });
+
+        expect(result).toContain("export const userRoles = ");
+      });
+
+      test("still resolves conflicts between custom names", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "type",
+            values: ["optionA", "optionB"],
+            originalTypePath: "GetV1ResourcesData.query.type",
+          },
+          {
+            name: "type",
+            values: ["methodX", "methodY"],
+            originalTypePath: "PostV1ResourcesData.body.type",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          naming: () => "resourceKinds",
+        });
+
+        expect(result).toContain("export const queryTypes = ");
+        expect(result).toContain("export const requestTypes = ");
+        expect(result).not.toContain("resourceKinds");
+      });
+
+      test("prefers custom names when merging identical enums", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "format",
+            values: ["json", "xml"],
+            originalTypePath: "GetV1ItemsData.query.format",
+          },
+          {
+            name: "format",
+            values: ["json", "xml"],
+            originalTypePath: "PostV1ItemsData.body.format",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          overrides: { "PostV1ItemsData.body.format": "exportFormats" },
+        });
+
+        expect(result).toContain(
+          "export const exportFormats = ['json', 'xml'] as const",
+        );
+        expect(result.match(/export const/g)).toHaveLength(1);
+      });
+    });
+
+    describe("metadata", () => {
+      const severity = (): EnumInfo => ({
+        name: "Severity",
+        values: ["low", "high", "in-review"],
+        originalTypePath: "export type Severity",
+        description: "How urgent an issue is.\nUse */ sparingly",
+        deprecated: true,
+        valueMetadata: [
+          { value: "low", name: "MINOR", description: "Can wait" },
+          { value: "in-review", description: "Being triaged" },
+        ],
+      });
+
+      test("emits JSDoc with @deprecated on arrays and enum objects", () => {
+        const result = generator.generateEnumArrays([severity()], {
+          generateEnumObjects: true,
+        });
+        const docComment = [
+          "/**",
+          " * How urgent an issue is.",
+          " * Use *\\/ sparingly",
+          " * @deprecated",
+          " */",
+        ].join("\n");
+
+        expect(result).toContain(
+          `${docComment}\nexport const severityValues = ['low', 'high', 'in-review'] as const`,
+        );
+        expect(result).toContain(
+          `${docComment}\nexport const SeverityValues = Object.freeze({`,
+        );
+      });
+
+      test("uses value names as enum object keys", () => {
+        const result = generator.generateEnumArrays([severity()], {
+          generateEnumObjects: true,
+          enumObjectKeyCase: "SCREAMING_SNAKE_CASE",
+        });
+
+        expect(result).toContain("  MINOR: 'low',\n  HIGH: 'high',");
+      });
+
+      test("emits a label map for described values", () => {
+        const result = generator.generateEnumArrays([severity()]);
+
+        expect(result).toContain(
+          [
+            "export const severityLabels = {",
+            "  'low': 'Can wait',",
+            "  'in-review': 'Being triaged',",
+            "} as const",
+          ].join("\n"),
+        );
+        expect(evaluateModule(result).severityLabels).toEqual({
+          low: "Can wait",
+          "in-review": "Being triaged",
+        });
+      });
+
+      test("omits documentation when there is no metadata", () => {
+        const result = generator.generateEnumArrays([
+          {
+            name: "Status",
+            values: ["on", "off"],
+            originalTypePath: "export type Status",
+            valueMetadata: [{ value: "on", name: "ENABLED" }],
+          },
+        ]);
+
+        expect(result).not.toContain("/**");
+        expect(result).not.toContain("Labels");
+      });
+    });
+
+    describe("generateFiles", () => {
+      const enums = (): EnumInfo[] => [
+        {
+          name: "TaskStatus",
+          values: ["in_progress", "done", null],
+          originalTypePath: "Task.status",
+          valueMetadata: [{ value: "done", description: "Completed" }],
+        },
+        {
+          name: "Priority",
+          values: [1, 2],
+          originalTypePath: "export type Priority",
+          valueMetadata: [{ value: 2, name: "HIGH_PRIORITY" }],
+        },
+      ];
+
+      test("returns only the enum module by default", () => {
+        const files = generator.generateFiles(enums());
+
+        expect(files).toEqual([
+          {
+            path: "enums.gen",
+            extension: ".ts",
+            content: generator.generateEnumArrays(enums()),
+          },
+        ]);
+      });
+
+      test("writes a typed labels module per enum", () => {
+        const files = generator.generateFiles(enums(), {
+          output: "enums",
+          generateLabels: true,
+        });
+
+        expect(files.map((file) => file.path)).toEqual([
+          "enums",
+          "labels/taskStatusLabels",
+          "labels/priorityLabels",
+        ]);
+        expect(files[0].content).not.toContain("Labels");
+        expect(files[1].content).toBe(
+          [
+            "// This file is auto-generated by openapi-enum-arrays",
+            "// Content hash: 9b4420fa794accdd",
+            "",
+            "import type { taskStatuses } from '../enums'",
+            "",
+            "export const taskStatusLabels: Record<NonNullable<(typeof taskStatuses)[number]>, string> = {",
+            "  'in_progress': 'In progress',",
+            "  'done': 'Completed',",
+            "}",
+          ].join("\n"),
+        );
+        expect(files[2].content).toContain(
+          "export const priorityLabels: Record<(typeof priorityValues)[number], string> = {\n  '1': '1',\n  '2': 'High priority',\n}",
+        );
+
+        const sources = Object.fromEntries(
+          files.map((file) => [`${file.path}.ts`, file.content]),
+        );
+        expect(typeCheck(sources)).toEqual([]);
+        expect(
+          typeCheck({
+            ...sources,
+            "labels/taskStatusLabels.ts": files[1].content.replace(
+              "  'done': 'Completed',\n",
+              "",
+            ),
+          }).join("\n"),
+        ).toContain("Property 'done' is missing");
+      });
+
+      test("splits enums into modules with a barrel", () => {
+        const grouped: EnumInfo[] = [
+          {
+            name: "petStatus",
+            values: ["available", "sold"],
+            originalTypePath: "Pet.status",
+          },
+          {
+            name: "sort",
+            values: ["name", "age"],
+            originalTypePath: "ListPetsData.query.sort",
+            operationId: "listPets",
+            tags: ["pet store"],
+          },
+          {
+            name: "kind",
+            values: ["cat", "dog"],
+            originalTypePath: "ListPetsData.query.kind",
+            operationId: "listPets",
+            tags: ["pet store"],
+          },
+        ];
+
+        const files = generator.generateFiles(grouped, {
+          outputStrategy: "tag",
+          generateTypeGuards: true,
+          generateTypeChecks: true,
+          generateLabels: true,
+        });
+
+        expect(files.map((file) => file.path)).toEqual([
+          "enums.gen/petStore",
+          "enums.gen/shared",
+          "enums.gen/index",
+          "labels/sortLabels",
+          "labels/kindLabels",
+          "labels/petStatusLabels",
+        ]);
+        expect(files[0].content).toContain(
+          "import type * as EnumArraysSourceTypes from '../types.gen'",
+        );
+        expect(files[2].content).toBe(
+          [
+            "// This file is auto-generated by openapi-enum-arrays",
+            "// Content hash: e713f5cdd0643942",
+            "",
+            "export { sortValues, type Sort, isSort, kindValues, type Kind, isKind } from './petStore'",
+            "",
+            "export { petStatuses, type PetStatus, isPetStatus } from './shared'",
+          ].join("\n"),
+        );
+        expect(files[3].content).toContain(
+          "import type { sortValues } from '../enums.gen/petStore'",
+        );
+
+        const sources = Object.fromEntries(
+          files.map((file) => [`${file.path}.ts`, file.content]),
+        );
+        expect(
+          typeCheck({
+            ...sources,
+            "types.gen.ts": [
+              "export type Pet = { status?: 'available' | 'sold' }",
+              "export type ListPetsData = { query?: { sort?: 'name' | 'age'; kind?: 'cat' | 'dog' } }",
+            ].join("\n"),
+            "consumer.ts": [
+              "import { isKind, petStatuses, type Sort } from './enums.gen/index'",
+              "export const sort: Sort = 'age'",
+              "export const checks = [isKind('cat'), petStatuses.length]",
+            ].join("\n"),
+          }),
+        ).toEqual([]);
+      });
+
+      test("appends the import file extension to relative imports", () => {
+        const files = generator.generateFiles(
+          [
+            {
+              name: "kind",
+              values: ["cat", "dog"],
+              originalTypePath: "Pet.kind",
+              tags: ["pets"],
+            },
+          ],
+          {
+            outputStrategy: "tag",
+            generateTypeChecks: true,
+            generateLabels: true,
+            importFileExtension: ".js",
+          },
+        );
+
+        expect(files[0].content).toContain(
+          "import type * as EnumArraysSourceTypes from '../types.gen.js'",
+        );
+        expect(files[1].content).toContain("from './pets.js'");
+        expect(files[2].content).toContain(
+          "import type { kindValues } from '../enums.gen/pets.js'",
+        );
+      });
+
+      test("groups by operation or source schema", () => {
+        const grouped: EnumInfo[] = [
+          {
+            name: "sort",
+            values: ["name", "age"],
+            originalTypePath: "ListPetsData.query.sort",
+            operationId: "listPets",
+          },
+          {
+            name: "status",
+            values: ["ok", "error"],
+            originalTypePath: "ListPetsResponses.200.status",
+            operationId: "listPets",
+          },
+          {
+            name: "Index",
+            values: ["a", "b"],
+            originalTypePath: "export type Index",
+          },
+        ];
+        const paths = (outputStrategy: GeneratorOptions["outputStrategy"]) =>
+          generator
+            .generateFiles(grouped, { output: "enums", outputStrategy })
+            .map((file) => file.path);
+
+        expect(paths("operation")).toEqual([
+          "enums/listPets",
+          "enums/shared",
+          "enums/index",
+        ]);
+        expect(paths("schema")).toEqual([
+          "enums/indexEnums",
+          "enums/listPetsData",
+          "enums/listPetsResponses",
+          "enums/index",
+        ]);
+      });
+
+      test("writes a JSON catalogue and JSON Schema from the deduplicated enums", () => {
+        const files = generator.generateFiles(
+          [
+            {
+              name: "petStatus",
+              values: ["available", "sold", null],
+              originalTypePath: "Pet.status",
+              description: "Sale state",
+            },
+            {
+              name: "petStatus",
+              values: ["sold", "available", null],
+              originalTypePath: "PetInput.status",
+            },
+            {
+              name: "Priority",
+              values: [1, 2.5],
+              originalTypePath: "export type Priority",
+              deprecated: true,
+            },
+          ],
+          { generateJson: true, generateJsonSchema: true },
+        );
+        const [, catalogue, schema] = files;
+
+        expect(catalogue.path).toBe("enums");
+        expect(catalogue.extension).toBe(".json");
+        expect(JSON.parse(catalogue.content)).toEqual({
+          petStatuses: {
+            values: ["available", "sold", null],
+            sourcePaths: ["Pet.status", "PetInput.status"],
+            description: "Sale state",
+          },
+          priorityValues: {
+            values: [1, 2.5],
+            sourcePaths: ["export type Priority"],
+            deprecated: true,
+          },
+        });
+        expect(schema.path).toBe("enums.schema");
+        expect(JSON.parse(schema.content)).toEqual({
+          $schema: "https://json-schema.org/draft/2020-12/schema",
+          $defs: {
+            petStatuses: {
+              type: ["string", "null"],
+              enum: ["available", "sold", null],
+              description: "Sale state",
+            },
+            priorityValues: {
+              type: "number",
+              enum: [1, 2.5],
+              deprecated: true,
+            },
+          },
+        });
+      });
+
+      test("resolves labels module paths in nested directories", () => {
+        const [, labels] = generator.generateFiles([enums()[0]], {
+          output: "api/enums.gen",
+          generateLabels: true,
+          labelsDirectory: "i18n/labels",
+        });
+
+        expect(labels.path).toBe("i18n/labels/taskStatusLabels");
+        expect(labels.content).toContain(
+          "import type { taskStatuses } from '../../api/enums.gen'",
+        );
+      });
+    });
+
+    describe("generate", () => {
+      test("reports merged source paths and why a name was kept", () => {
+        const { report } = generator.generate([
+          {
+            name: "format",
+            values: ["json", "csv"],
+            originalTypePath: "PostExportData.body.format",
+          },
+          {
+            name: "queryFormat",
+            values: ["csv", "json"],
+            originalTypePath: "GetExportData.query.format",
+          },
+          {
+            name: "Priority",
+            values: [1, 2],
+            originalTypePath: "export type Priority",
+          },
+        ]);
+
+        expect(report.arrays).toEqual([
+          {
+            name: "formatValues",
+            values: ["json", "csv"],
+            sourcePaths: [
+              "GetExportData.query.format",
+              "PostExportData.body.format",
+            ],
+            mergeReason:
+              'highest naming score: "format" (44) over "queryFormat" (29)',
+          },
+          {
+            name: "priorityValues",
+            values: [1, 2],
+            sourcePaths: ["export type Priority"],
+          },
+        ]);
+        expect(report.renames).toEqual([]);
+        expect(report.filtered).toEqual([]);
+      });
+
+      test("reports custom names kept when merging", () => {
+        const { report } = generator.generate(
+          [
+            {
+              name: "format",
+              values: ["json", "csv"],
+              originalTypePath: "Export.format",
+            },
+            {
+              name: "format",
+              values: ["json", "csv"],
+              originalTypePath: "Import.format",
+            },
+          ],
+          { overrides: { "Import.format": "fileFormats" } },
+        );
+
+        expect(report.arrays).toEqual([
+          expect.objectContaining({
+            name: "fileFormats",
+            sourcePaths: ["Export.format", "Import.format"],
+            mergeReason: 'custom name "fileFormats" from Import.format',
+          }),
+        ]);
+      });
+
+      test("reports renames with their cause", () => {
+        const { report } = generator.generate(
+          [
+            {
+              name: "type",
+              values: ["a", "b"],
+              originalTypePath: "GetFooData.query.type",
+            },
+            {
+              name: "type",
+              values: ["c", "d"],
+              originalTypePath: "GetBarData.query.type",
+            },
+            {
+              name: "kind",
+              values: ["x", "y"],
+              originalTypePath: "PostItemsData.body.kind",
+            },
+            {
+              name: "kind",
+              values: ["z"],
+              originalTypePath: "User.kind",
+            },
+            {
+              name: "2faMethod",
+              values: ["sms", "totp"],
+              originalTypePath: "User.2faMethod",
+            },
+          ],
+          { pluralization: { strategy: "Values" } },
+        );
+
+        expect(report.renames).toEqual([
+          {
+            originalTypePath: "GetBarData.query.type",
+            from: "typeValues",
+            to: "getBarDataQueryTypeValues",
+            reason: "identifier-conflict",
+          },
+          {
+            originalTypePath: "GetFooData.query.type",
+            from: "typeValues",
+            to: "getFooDataQueryTypeValues",
+            reason: "identifier-conflict",
+          },
+          {
+            originalTypePath: "PostItemsData.body.kind",
+            from: "kindValues",
+            to: "requestKindValues",
+            reason: "name-conflict",
+          },
+          {
+            originalTypePath: "User.2faMethod",
+            from: "2faMethodValues",
+            to: "_2faMethodValues",
+            reason: "invalid-identifier",
+          },
+        ]);
+      });
+    });
+
+    describe("namingLock", () => {
+      const queryFormat: EnumInfo = {
+        name: "queryFormat",
+        values: ["csv", "json"],
+        originalTypePath: "GetExportData.query.format",
+      };
+      const bodyFormat: EnumInfo = {
+        name: "format",
+        values: ["json", "csv"],
+        originalTypePath: "PostExportData.body.format",
+      };
+
+      test("keeps locked names when a new enum would win the merge", () => {
+        const { lock } = generator.generate([queryFormat]);
+        expect(lock).toEqual({
+          version: 1,
+          arrays: [
+            {
+              name: "queryFormatValues",
+              objectName: "QueryFormatValues",
+              typeName: "QueryFormat",
+              labelsName: "queryFormatLabels",
+              schemaName: "queryFormatSchema",
+              values: ["csv", "json"],
+              sourcePaths: ["GetExportData.query.format"],
+            },
+          ],
+        });
+
+        expect(
+          generator.generate([queryFormat, bodyFormat]).lock.arrays,
+        ).toEqual([expect.objectContaining({ name: "formatValues" })]);
+
+        const { files, report } = generator.generate(
+          [queryFormat, bodyFormat],
+          { namingLock: lock, generateTypeGuards: true },
+        );
+        expect(files[0].content).toContain(
+          "export const queryFormatValues = ['json', 'csv'] as const",
+        );
+        expect(files[0].content).toContain("export type QueryFormat =");
+        expect(report.renames).toEqual([
+          {
+            originalTypePath: "PostExportData.body.format",
+            from: "formatValues",
+            to: "queryFormatValues",
+            reason: "locked",
+          },
+        ]);
+      });
+
+      test.each([
+        ["added", ["cat", "dog", "bird"]],
+        ["removed", ["cat"]],
+      ])(
+        "keeps the locked name at its path when values are %s",
+        (_change, values) => {
+          const petKind: EnumInfo = {
+            name: "petKind",
+            values: ["cat", "dog"],
+            originalTypePath: "Pet.kind",
+          };
+          const { lock } = generator.generate([petKind]);
+
+          const { lock: next } = generator.generate(
+            [
+              { ...petKind, values },
+              {
+                name: "petKind",
+                values: ["cat", "dog"],
+                originalTypePath: "Shelter.petKind",
+              },
+            ],
+            { namingLock: lock },
+          );
+
+          expect(next.arrays).toContainEqual(
+            expect.objectContaining({
+              name: "petKindValues",
+              sourcePaths: ["Pet.kind"],
+            }),
+          );
+        },
+      );
+
+      test("matches by source path when values change and names new enums", () => {
+        const { lock } = generator.generate([queryFormat]);
+
+        const { lock: next } = generator.generate(
+          [
+            { ...queryFormat, name: "exportFormat", values: ["csv", "xml"] },
+            {
+              name: "queryFormat",
+              values: ["a", "b"],
+              originalTypePath: "X.y",
+            },
+          ],
+          { namingLock: lock },
+        );
+
+        expect(next.arrays.map((entry) => [entry.name, entry.values])).toEqual([
+          ["queryFormatValues", ["csv", "xml"]],
+          ["xYValues", ["a", "b"]],
+        ]);
+      });
+
+      test("prefers explicit names over locked ones", () => {
+        const { lock } = generator.generate([queryFormat]);
+
+        const { lock: next } = generator.generate([queryFormat], {
+          namingLock: lock,
+          overrides: { "GetExportData.query.format": "exportFormats" },
+        });
+
+        expect(next.arrays.map((entry) => entry.name)).toEqual([
+          "exportFormats",
+        ]);
+      });
+    });
+
+    describe("validators", () => {
+      const enums = (): EnumInfo[] => [
+        {
+          name: "Status",
+          values: ["active", "inactive"],
+          originalTypePath: "export type Status",
+        },
+        {
+          name: "Priority",
+          values: [1, 2],
+          originalTypePath: "export type Priority",
+        },
+        {
+          name: "Level",
+          values: ["low", true, null],
+          originalTypePath: "export type Level",
+        },
+      ];
+
+      test("emits Zod schemas that reuse the arrays", () => {
+        const result = generator.generateEnumArrays(enums(), {
+          validators: "zod",
+        });
+
+        expect(result).toMatch(
+          /^\/\/ This file is auto-generated by openapi-enum-arrays\n\/\/ Content hash: [0-9a-f]{16}\n\nimport { z } from 'zod'\n\n/,
+        );
+        expect(result).toContain(
+          "export const statusSchema = z.enum(statusValues)",
+        );
+        expect(result).toContain(
+          "export const prioritySchema = z.union([z.literal(priorityValues[0]), z.literal(priorityValues[1])])",
+        );
+        expect(result).toContain(
+          "export const levelSchema = z.union([z.literal(levelValues[0]), z.literal(levelValues[1]), z.null()])",
+        );
+      });
+
+      test("emits Valibot picklists for string and numeric enums", () => {
+        const result = generator.generateEnumArrays(enums(), {
+          validators: "valibot",
+        });
+
+        expect(result).toContain("import * as v from 'valibot'");
+        expect(result).toContain(
+          "export const statusSchema = v.picklist(statusValues)",
+        );
+        expect(result).toContain(
+          "export const prioritySchema = v.picklist(priorityValues)",
+        );
+        expect(result).toContain(
+          "export const levelSchema = v.union([v.literal(levelValues[0]), v.literal(levelValues[1]), v.null()])",
+        );
+      });
+
+      test("writes schemas to a sibling module when requested", () => {
+        const [enumModule, validatorsModule] = generator.generateFiles(
+          enums().slice(0, 2),
+          { validators: "zod", validatorsOutput: "separate" },
+        );
+
+        expect(enumModule.content).not.toContain("zod");
+        expect(validatorsModule).toEqual({
+          path: "enums.gen.validators",
+          extension: ".ts",
+          content: [
+            "// This file is auto-generated by openapi-enum-arrays",
+            "// Content hash: b329b5abc5492f5d",
+            "",
+            "import { z } from 'zod'",
+            "import { statusValues, priorityValues } from './enums.gen'",
+            "",
+            "export const statusSchema = z.enum(statusValues)",
+            "export const prioritySchema = z.union([z.literal(priorityValues[0]), z.literal(priorityValues[1])])",
+          ].join("\n"),
+        });
+      });
+    });
+
+    describe("valueOrder", () => {
+      const severity = (): EnumInfo => ({
+        name: "Severity",
+        values: ["low", "Medium", "high", "v10", "v2"],
+        originalTypePath: "export type Severity",
+      });
+
+      test("keeps spec order by default without mutating the input", () => {
+        const enumInfo = severity();
+
+        const result = generator.generateEnumArrays([enumInfo]);
+
+        expect(result).toContain(
+          "export const severityValues = ['low', 'Medium', 'high', 'v10', 'v2'] as const",
+        );
+        expect(enumInfo.values).toEqual(["low", "Medium", "high", "v10", "v2"]);
+      });
+
+      test("sorts alphabetically, naturally or with a custom comparator", () => {
+        const generate = (valueOrder: GeneratorOptions["valueOrder"]) =>
+          generator.generateEnumArrays([severity()], { valueOrder });
+
+        expect(generate("alphabetical")).toContain(
+          "['Medium', 'high', 'low', 'v10', 'v2']",
+        );
+        expect(generate("natural")).toContain(
+          "['high', 'low', 'Medium', 'v2', 'v10']",
+        );
+        expect(
+          generate((a, b) => String(a).length - String(b).length),
+        ).toContain("['v2', 'low', 'v10', 'high', 'Medium']");
+      });
+
+      test("merges identical value sets declared in different orders", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "Stage",
+            values: ["draft", "review", "published"],
+            originalTypePath: "export type Stage",
+          },
+          {
+            name: "Stage",
+            values: ["published", "draft", "review"],
+            originalTypePath: "export type Stage",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums);
+
+        expect(result.match(/export const \w+ = \[/g)).toHaveLength(1);
+        expect(result).toContain(
+          "export const stageValues = ['draft', 'review', 'published'] as const",
+        );
+      });
+    });
+
+    describe("identifier resolution", () => {
+      test("sanitises generated and custom names", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "2faMethod",
+            values: ["sms", "totp"],
+            originalTypePath: "User.2faMethod",
+          },
+          {
+            name: "delete",
+            values: ["soft", "hard"],
+            originalTypePath: "Options.delete",
+          },
+          {
+            name: "format",
+            values: ["json", "xml"],
+            originalTypePath: "Export.format",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          pluralization: { strategy: "none" },
+          overrides: { "Export.format": "export-formats" },
+        });
+
+        expect(result).toContain("export const _2faMethod = [");
+        expect(result).toContain("export const _delete = [");
+        expect(result).toContain("export const exportFormats = [");
+        expect(() => evaluateModule(result)).not.toThrow();
+      });
+
+      test("keeps enum objects apart from types of unpluralised names", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "petStatus",
+            values: ["available", "sold"],
+            originalTypePath: "Pet.status",
+          },
+        ];
+        const options: GeneratorOptions = {
+          generateEnumObjects: true,
+          generateTypeGuards: true,
+        };
+
+        const none = generator.generateEnumArrays(enums, {
+          ...options,
+          pluralization: { strategy: "none" },
+        });
+        const plural = generator.generateEnumArrays(
+          [{ ...enums[0], name: "tags", originalTypePath: "Pet.tags" }],
+          { ...options, pluralization: { strategy: "plural" } },
+        );
+
+        expect(none).toContain("export const petStatus = [");
+        expect(none).toContain("export const PetStatusEnum = Object.freeze({");
+        expect(none).toContain(
+          "export type PetStatus = (typeof petStatus)[number]",
+        );
+        expect(plural).toContain("export const TagsEnum = Object.freeze({");
+        expect(plural).toContain("export type Tags = (typeof tags)[number]");
+        expect(typeCheck({ "none.ts": none, "plural.ts": plural })).toEqual([]);
+      });
+
+      test("falls back to full path names when contextual names clash", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "type",
+            values: ["a", "b"],
+            originalTypePath: "GetFooData.query.type",
+          },
+          {
+            name: "type",
+            values: ["c", "d"],
+            originalTypePath: "GetBarData.query.type",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums);
+
+        expect(result).toContain(
+          "export const getFooDataQueryTypes = ['a', 'b'] as const",
+        );
+        expect(result).toContain(
+          "export const getBarDataQueryTypes = ['c', 'd'] as const",
+        );
+      });
+
+      test("keeps explicit names and renames the generated name they clash with", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "state",
+            values: ["on", "off"],
+            originalTypePath: "Device.state",
+          },
+          {
+            name: "status",
+            values: ["open", "closed"],
+            originalTypePath: "Order.status",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          overrides: { "Device.state": "statusValues" },
+        });
+
+        expect(result).toContain(
+          "export const statusValues = ['on', 'off'] as const",
+        );
+        expect(result).toContain(
+          "export const orderStatuses = ['open', 'closed'] as const",
+        );
+      });
+
+      test("resolves clashes between companion identifiers", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "role",
+            values: ["admin", "user"],
+            originalTypePath: "User.role",
+          },
+          {
+            name: "kind",
+            values: ["a", "b"],
+            originalTypePath: "Team.kind",
+          },
+        ];
+
+        const result = generator.generateEnumArrays(enums, {
+          generateTypeGuards: true,
+          overrides: { "Team.kind": "isRole" },
+        });
+
+        expect(result).toContain("export const isRole = ['a', 'b'] as const");
+        expect(result).toContain("export type UserRole = ");
+        expect(result).toContain("export const isUserRole = ");
+        expect(() => evaluateModule(result)).not.toThrow();
+      });
+
+      test("throws when a clash cannot be resolved", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "status",
+            values: ["a", "b"],
+            originalTypePath: "export type Status",
+          },
+          {
+            name: "status",
+            values: ["c", "d"],
+            originalTypePath: "export type Status",
+          },
+        ];
+
+        expect(() => generator.generateEnumArrays(enums)).toThrow(
+          /Cannot resolve a unique name for "statusValues"/,
+        );
+        expect(() => generator.generateEnumArrays(enums)).toThrow(
+          expect.objectContaining({
+            name: "NamingConflictError",
+            path: "export type Status",
+            names: ["statusValues"],
+          }),
+        );
+      });
+
+      test("throws a naming conflict for names without identifier characters", () => {
+        const enums: EnumInfo[] = [
+          {
+            name: "status",
+            values: ["a", "b"],
+            originalTypePath: "Pet.status",
+          },
+        ];
+
+        expect(() =>
+          generator.generateEnumArrays(enums, { naming: () => "--" }),
+        ).toThrow(
+          expect.objectContaining({
+            name: "NamingConflictError",
+            path: "Pet.status",
+            names: ["--"],
+          }),
+        );
+      });
+    });
+
     test("generates header comment with generation info", () => {
       const enums: EnumInfo[] = [];
 
@@ -100,7 +1616,7 @@ describe("CodeGenerator", () => {
         `export const queryTypes = ['admin', 'editor', 'viewer'] as const`,
       );
       expect(result).toContain(
-        `export const userTypes = ['basic', 'enterprise', 'premium'] as const`,
+        `export const userTypes = ['basic', 'premium', 'enterprise'] as const`,
       );
 
       // Should have two separate arrays, not merged
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "vitest";
+import { NamingConflictError } from "../src/errors";
+import { toIdentifier } from "../src/identifiers";
+
+describe("toIdentifier", () => {
+  test("keeps valid identifiers", () => {
+    expect(toIdentifier("statusValues")).toBe("statusValues");
+    expect(toIdentifier("$ref_kind")).toBe("$ref_kind");
+    expect(toIdentifier("größeValues")).toBe("größeValues");
+  });
+
+  test("treats invalid characters as word boundaries", () => {
+    expect(toIdentifier("x-format values")).toBe("xFormatValues");
+    expect(toIdentifier("content.type!")).toBe("contentType");
+  });
+
+  test("prefixes names starting with a digit or matching a reserved word", () => {
+    expect(toIdentifier("2faMethods")).toBe("_2faMethods");
+    expect(toIdentifier("delete")).toBe("_delete");
+    expect(toIdentifier("Object")).toBe("_Object");
+    expect(toIdentifier("Record")).toBe("_Record");
+    expect(toIdentifier("NonNullable")).toBe("_NonNullable");
+  });
+
+  test("throws when no identifier characters remain", () => {
+    expect(() => toIdentifier("--")).toThrow(/Cannot derive an identifier/);
+    expect(() => toIdentifier("--", "Pet.status")).toThrow(
+      expect.objectContaining({ path: "Pet.status", names: ["--"] }),
+    );
+    expect(() => toIdentifier("--")).toThrow(NamingConflictError);
+  });
+});
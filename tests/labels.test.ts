@@ -0,0 +1,29 @@
+import { describe, expect, test } from "vitest";
+import { toEnumLabel } from "../src/labels";
+
+describe("toEnumLabel", () => {
+  test("humanises values", () => {
+    expect(toEnumLabel("in_progress")).toBe("In progress");
+    expect(toEnumLabel("readyForReview")).toBe("Ready for review");
+    expect(toEnumLabel("HTTP_ERROR")).toBe("Http error");
+    expect(toEnumLabel("retryHTTPRequest")).toBe("Retry HTTP request");
+    expect(toEnumLabel(42)).toBe("42");
+    expect(toEnumLabel(-1)).toBe("-1");
+    expect(toEnumLabel(1.5)).toBe("1.5");
+    expect(toEnumLabel(true)).toBe("True");
+  });
+
+  test("prefers descriptions, then value names", () => {
+    expect(
+      toEnumLabel(1, { value: 1, name: "LOW_PRIORITY", description: "Low" }),
+    ).toBe("Low");
+    expect(toEnumLabel(1, { value: 1, name: "LOW_PRIORITY" })).toBe(
+      "Low priority",
+    );
+  });
+
+  test("returns separator-only values unchanged", () => {
+    expect(toEnumLabel("")).toBe("");
+    expect(toEnumLabel("-")).toBe("-");
+  });
+});
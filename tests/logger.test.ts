@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { createLogger, resolveLogger } from "../src/logger";
+
+describe("createLogger", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const logAll = (level: Parameters<typeof createLogger>[0]) => {
+    const logger = createLogger(level);
+    logger.error("error");
+    logger.warn("warn");
+    logger.info("info");
+    logger.debug("debug");
+  };
+
+  test("prints messages at the level and more severe ones", () => {
+    logAll("warn");
+
+    expect(console.error).toHaveBeenCalledWith("error");
+    expect(console.warn).toHaveBeenCalledWith("warn");
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  test("prints nothing when silent", () => {
+    logAll("silent");
+
+    expect(console.error).not.toHaveBeenCalled();
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  test("prints debug messages at the debug level", () => {
+    logAll("debug");
+
+    expect(console.log).toHaveBeenCalledWith("info");
+    expect(console.log).toHaveBeenCalledWith("debug");
+  });
+});
+
+describe("resolveLogger", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("returns a custom logger as is", () => {
+    const logger = createLogger("silent");
+
+    expect(resolveLogger(logger, "debug")).toBe(logger);
+  });
+
+  test("falls back to the openapi-ts log level", () => {
+    resolveLogger(undefined, "trace").debug("trace");
+    resolveLogger(undefined, "fatal").info("fatal");
+    resolveLogger(undefined, "silent").info("silent");
+    resolveLogger(undefined).info("default");
+
+    expect(vi.mocked(console.log).mock.calls).toEqual([["trace"], ["default"]]);
+  });
+
+  test("prefers the configured level", () => {
+    resolveLogger("silent", "debug").info("info");
+
+    expect(console.log).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,8 @@
 import { describe, expect, test } from "vitest";
 import { EnumParser } from "../src/parser";
 
-describe("EnumParser", () => {
-  const parser = new EnumParser();
+describe.each(["ast", "line"] as const)("EnumParser (%s mode)", (mode) => {
+  const parser = new EnumParser({ mode });
 
   describe("parseEnumsFromTypeFile", () => {
     test("extracts standalone enum type definitions", () => {
@@ -78,9 +78,50 @@ export type Config = {
         name: expect.any(String),
         values: ["tag1", "tag2", "tag3"],
         originalTypePath: "Config.tags",
+        valueKind: "string",
       });
     });
 
+    test("handles nullable Array<union> patterns", () => {
+      const content = `
+export type Pet = {
+  tags?: Array<'a' | 'b'> | null;
+};
+      `.trim();
+
+      const result = parser.parseEnumsFromTypeFile(content);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        values: ["a", "b"],
+        originalTypePath: "Pet.tags",
+      });
+    });
+
+    test("extracts enums from objects in arrays", () => {
+      const content = `
+export type R = {
+  items: Array<{
+    status: 'a' | 'b';
+  }>;
+  list?: Array<{
+    kind?: 'k1' | 'k2';
+  }> | null;
+  rows: {
+    level: 'low' | 'high';
+  }[];
+};
+      `.trim();
+
+      const result = parser.parseEnumsFromTypeFile(content);
+
+      expect(result.map((e) => [e.originalTypePath, e.values])).toEqual([
+        ["R.items.status", ["a", "b"]],
+        ["R.list.kind", ["k1", "k2"]],
+        ["R.rows.level", ["low", "high"]],
+      ]);
+    });
+
     test("ignores non-enum types", () => {
       const content = `
 export type Mixed = string | number;
@@ -104,6 +145,39 @@ export type MixedQuotes = "double" | 'single' | \`backtick\`;
       expect(result[0].values).toEqual(["double", "single", "backtick"]);
     });
 
+    test("extracts numeric, boolean and mixed literal unions", () => {
+      const content = `
+export type Priority = 1 | 2 | 3;
+export type Task = {
+    flag?: true | false;
+    code: 'a' | 0;
+    offset: -1 | 0 | 1.5;
+    label: 'x' | 'y' | null;
+};
+      `.trim();
+
+      const result = parser.parseEnumsFromTypeFile(content);
+
+      expect(result.map((e) => [e.values, e.valueKind])).toEqual([
+        [[1, 2, 3], "number"],
+        [[true, false], "boolean"],
+        [["a", 0], "mixed"],
+        [[-1, 0, 1.5], "number"],
+        [["x", "y"], "string"],
+      ]);
+    });
+
+    test("keeps empty strings and unescapes string literals", () => {
+      const content = `
+export type Quoted = '' | 'it\\'s' | 'caf\\u00e9' | "line\\nbreak";
+      `.trim();
+
+      const result = parser.parseEnumsFromTypeFile(content);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].values).toEqual(["", "it's", "café", "line\nbreak"]);
+    });
+
     test("handles various nesting levels and array patterns", () => {
       const content = `
 export type NestedTestData = {
@@ -353,3 +427,106 @@ export type GetApiResourcesData = {
     });
   });
 });
+
+describe("EnumParser (ast mode)", () => {
+  const parser = new EnumParser({ mode: "ast" });
+
+  test("handles unions spanning multiple lines", () => {
+    const content = `
+export type Task = {
+    stage?:
+        | 'todo'
+        | 'in_progress'
+        | 'done';
+};
+    `.trim();
+
+    const result = parser.parseEnumsFromTypeFile(content);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].values).toEqual(["todo", "in_progress", "done"]);
+    expect(result[0].originalTypePath).toBe("Task.stage");
+  });
+
+  test("ignores braces inside string literal members", () => {
+    const content = `
+export type Template = {
+    pattern: '{id}' | '{id}/{slug}' | '}';
+    kind: 'a' | 'b';
+};
+    `.trim();
+
+    const result = parser.parseEnumsFromTypeFile(content);
+
+    expect(result.map((e) => e.originalTypePath)).toEqual([
+      "Template.pattern",
+      "Template.kind",
+    ]);
+    expect(result[0].values).toEqual(["{id}", "{id}/{slug}", "}"]);
+  });
+
+  test("handles inline object types declared on one line", () => {
+    const content = `
+export type Inline = { filter: { level: 'low' | 'high'; scope?: 'all' | 'mine' }; order: 'asc' | 'desc' };
+    `.trim();
+
+    const result = parser.parseEnumsFromTypeFile(content);
+
+    expect(result.map((e) => e.originalTypePath)).toEqual([
+      "Inline.filter.level",
+      "Inline.filter.scope",
+      "Inline.order",
+    ]);
+  });
+
+  test("extracts enums from interfaces, quoted keys and nullable objects", () => {
+    const content = `
+export interface Settings {
+    'x-theme': 'light' | 'dark';
+    nested?: {
+        size: ('s' | 'm' | 'l')[];
+    } | null;
+}
+    `.trim();
+
+    const result = parser.parseEnumsFromTypeFile(content);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      values: ["light", "dark"],
+      originalTypePath: "Settings.x-theme",
+    });
+    expect(result[1]).toMatchObject({
+      values: ["s", "m", "l"],
+      originalTypePath: "Settings.nested.size",
+    });
+  });
+
+  test("extracts enums from map values and response arrays", () => {
+    const content = `
+export type Pet = {
+    labels?: {
+        [key: string]: 'red' | 'blue';
+    };
+    owners?: {
+        [key: string]: {
+            role: 'admin' | 'guest';
+        };
+    } | null;
+};
+export type Flags = { [key: string]: 'on' | 'off' };
+export type ListPetsResponses = {
+    200: Array<{ state?: 'x' | 'y' }>;
+};
+    `.trim();
+
+    const result = parser.parseEnumsFromTypeFile(content);
+
+    expect(result.map((e) => [e.originalTypePath, e.values])).toEqual([
+      ["Pet.labels", ["red", "blue"]],
+      ["Pet.owners.role", ["admin", "guest"]],
+      ["export type Flags", ["on", "off"]],
+      ["ListPetsResponses.200.state", ["x", "y"]],
+    ]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "vitest";
+import { EnumMatcher } from "../src/patterns";
+import type { EnumInfo } from "../src/types";
+
+describe("EnumMatcher", () => {
+  const matcher = new EnumMatcher();
+
+  const queryEnum: EnumInfo = {
+    name: "resourcesSortBy",
+    values: ["name", "date"],
+    originalTypePath: "GetV1ResourcesData.query.sortBy",
+  };
+  const bodyEnum: EnumInfo = {
+    name: "resourcesType",
+    values: ["a", "b"],
+    originalTypePath: "PostV1ResourcesData.body.type",
+  };
+  const schemaEnum: EnumInfo = {
+    name: "internalstatusValues",
+    values: ["on", "off"],
+    originalTypePath: "export type InternalStatus",
+  };
+
+  describe("matches", () => {
+    test("matches plain strings as name substrings, exact paths and schema names", () => {
+      expect(matcher.matches(queryEnum, "Sort")).toBe(true);
+      expect(
+        matcher.matches(queryEnum, "GetV1ResourcesData.query.sortBy"),
+      ).toBe(true);
+      expect(matcher.matches(queryEnum, "GetV1ResourcesData")).toBe(true);
+      expect(matcher.matches(schemaEnum, "InternalStatus")).toBe(true);
+      expect(matcher.matches(queryEnum, "query")).toBe(false);
+    });
+
+    test("matches globs against the original type path", () => {
+      expect(matcher.matches(queryEnum, "Get*Data.query.*")).toBe(true);
+      expect(matcher.matches(bodyEnum, "Get*Data.query.*")).toBe(false);
+      expect(matcher.matches(bodyEnum, "*Data.body.typ?")).toBe(true);
+    });
+
+    test("keeps single-star globs within one path segment", () => {
+      expect(matcher.matches(queryEnum, "Get*")).toBe(true);
+      expect(matcher.matches(queryEnum, "Get*.sortBy")).toBe(false);
+      expect(matcher.matches(queryEnum, "Get**.sortBy")).toBe(true);
+    });
+
+    test("matches globs against source schema names", () => {
+      expect(matcher.matches(schemaEnum, "Internal*")).toBe(true);
+      expect(matcher.matches(queryEnum, "Internal*")).toBe(false);
+    });
+
+    test("tests regular expressions against every target", () => {
+      expect(matcher.matches(queryEnum, /\.query\./)).toBe(true);
+      expect(matcher.matches(schemaEnum, /^Internal/)).toBe(true);
+      expect(matcher.matches(bodyEnum, /^internal/)).toBe(false);
+
+      const globalPattern = /sort/g;
+      expect(matcher.matches(queryEnum, globalPattern)).toBe(true);
+      expect(matcher.matches(queryEnum, globalPattern)).toBe(true);
+    });
+
+    test("escapes regular expression characters in globs", () => {
+      const dashed: EnumInfo = {
+        ...bodyEnum,
+        originalTypePath: "Headers.X-Format(v2)",
+      };
+
+      expect(matcher.matches(dashed, "Headers.X-Format(v?)")).toBe(true);
+      expect(matcher.matches(dashed, "Headers.X-Format.v?.")).toBe(false);
+    });
+  });
+
+  describe("matchesAny", () => {
+    test("returns true when one of the patterns matches", () => {
+      expect(matcher.matchesAny(bodyEnum, ["Get*", /\.body\./])).toBe(true);
+      expect(matcher.matchesAny(bodyEnum, ["Get*", /\.query\./])).toBe(false);
+    });
+  });
+});
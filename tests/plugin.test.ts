@@ -0,0 +1,370 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient } from "@hey-api/openapi-ts";
+import ts from "typescript";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { defineConfig } from "../src/config";
+import {
+  BreakingEnumChangeError,
+  EnumArraysError,
+  MissingInputError,
+  WriteError,
+} from "../src/errors";
+import { handler } from "../src/plugin";
+import type { Config } from "../src/types";
+
+type HandlerArgs = Parameters<typeof handler>[0];
+
+describe("handler", () => {
+  let dir: string;
+
+  interface Host {
+    output?: Record<string, unknown>;
+    dryRun?: boolean;
+    // In-memory `@hey-api/typescript` module, named `models.gen`
+    typesModule?: string;
+  }
+
+  const run = (config: Partial<Config>, host: Host = {}) =>
+    handler({
+      context: {
+        config: {
+          dryRun: host.dryRun ?? false,
+          output: { path: dir, ...host.output },
+          plugins:
+            host.typesModule === undefined
+              ? {}
+              : { "@hey-api/typescript": { output: "models" } },
+        },
+        file: () =>
+          host.typesModule === undefined
+            ? undefined
+            : {
+                nameWithoutExtension: () => "models.gen",
+                toString: () => host.typesModule,
+              },
+        subscribe: (_event: string, callback: () => void) => callback(),
+      },
+      plugin: { name: "enum-arrays", source: "types", ...config },
+    } as unknown as HandlerArgs);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "enum-arrays-plugin-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("generates the enums module from the types file", () => {
+    writeFileSync(
+      join(dir, "types.gen.ts"),
+      "export type Pet = { kind?: 'cat' | 'dog' };",
+    );
+
+    run({ output: "enums.gen" });
+
+    expect(readFileSync(join(dir, "enums.gen.ts"), "utf-8")).toContain(
+      "export const petKindValues = ['cat', 'dog'] as const",
+    );
+  });
+
+  test("follows the types module and import style of openapi-ts", () => {
+    run(
+      { output: "enums.gen", generateTypeChecks: true },
+      {
+        output: { importFileExtension: ".js" },
+        typesModule: "export type Pet = { kind?: 'cat' | 'dog' };",
+      },
+    );
+
+    const content = readFileSync(join(dir, "enums.gen.ts"), "utf-8");
+    expect(content).toContain(
+      "export const petKindValues = ['cat', 'dog'] as const",
+    );
+    expect(content).toContain("from './models.gen.js'");
+  });
+
+  test("writes nothing on a dry run", () => {
+    run(
+      { output: "enums.gen", generateReport: true },
+      {
+        dryRun: true,
+        typesModule: "export type Pet = { kind?: 'cat' | 'dog' };",
+      },
+    );
+
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  test("only warns about a missing types file by default", () => {
+    expect(() => run({ output: "enums.gen" })).not.toThrow();
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("types file not found"),
+    );
+  });
+
+  test("throws typed errors carrying the path in strict mode", () => {
+    const typesFile = join(dir, "types.gen.ts");
+
+    expect(() => run({ output: "enums.gen", strict: true })).toThrow(
+      expect.objectContaining({
+        name: "MissingInputError",
+        path: typesFile,
+      }),
+    );
+
+    writeFileSync(typesFile, "export type Pet = { kind?: 'cat' | 'dog' };");
+    mkdirSync(join(dir, "enums.gen.ts"));
+    let failure: unknown;
+    try {
+      run({ output: "enums.gen", strict: true });
+    } catch (error) {
+      failure = error;
+    }
+    expect(failure).toBeInstanceOf(WriteError);
+    expect(failure).toBeInstanceOf(EnumArraysError);
+    expect((failure as WriteError).path).toBe(join(dir, "enums.gen.ts"));
+  });
+
+  test("fails on removed values with the lockfile path", () => {
+    const namingLock = join(dir, "enums.lock.json");
+    const config: Partial<Config> = {
+      output: "enums.gen",
+      namingLock,
+      failOnBreaking: true,
+    };
+    run(config, {
+      typesModule: "export type Pet = { kind?: 'cat' | 'dog' | 'bird' };",
+    });
+
+    let failure: unknown;
+    try {
+      run(config, {
+        typesModule: "export type Pet = { kind?: 'cat' | 'dog' };",
+      });
+    } catch (error) {
+      failure = error;
+    }
+    expect(failure).toBeInstanceOf(BreakingEnumChangeError);
+    expect(failure).toBeInstanceOf(EnumArraysError);
+    expect((failure as BreakingEnumChangeError).path).toBe(namingLock);
+  });
+
+  test("fails on removed values that another enum still carries", () => {
+    const config: Partial<Config> = {
+      output: "enums.gen",
+      namingLock: join(dir, "enums.lock.json"),
+      failOnBreaking: true,
+    };
+    run(config, {
+      typesModule: "export type Pet = { kind?: 'cat' | 'dog' | 'bird' };",
+    });
+
+    expect(() =>
+      run(config, {
+        typesModule: [
+          "export type Pet = { kind?: 'cat' | 'dog' };",
+          "export type Shelter = { kind?: 'cat' | 'dog' | 'bird' };",
+        ].join("\n"),
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        name: "BreakingEnumChangeError",
+        removedValues: [{ name: "petKindValues", values: ["bird"] }],
+      }),
+    );
+  });
+
+  test("logs through the configured logger", () => {
+    writeFileSync(
+      join(dir, "types.gen.ts"),
+      "export type Pet = { kind?: 'cat' | 'dog' };\nexport type Owner = { pet?: 'cat' | 'dog' };",
+    );
+    const logger = {
+      error: vi.fn(),
+      warn: vi.fn(),
+      info: vi.fn(),
+      debug: vi.fn(),
+    };
+
+    run({ output: "enums.gen", logger });
+
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.stringMatching(/^Plugin: Merged 2 duplicate enum arrays/),
+    );
+    expect(logger.debug).toHaveBeenCalledWith(
+      expect.stringContaining("Parsed 2 enums from the types file"),
+    );
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  test("prints nothing with the silent level", () => {
+    run({ output: "enums.gen", logger: "silent", debug: true });
+
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  test("leaves unchanged files untouched with output.clean off", () => {
+    const typesModule = "export type Pet = { kind?: 'cat' | 'dog' };";
+    const output = { clean: false };
+    const file = join(dir, "enums.gen.ts");
+    run({ output: "enums.gen" }, { output, typesModule });
+    utimesSync(file, 0, 0);
+
+    run({ output: "enums.gen" }, { output, typesModule });
+    run(
+      { output: "enums.gen" },
+      { output, typesModule: `${typesModule} // cats` },
+    );
+    expect(statSync(file).mtimeMs).toBe(0);
+
+    run(
+      { output: "enums.gen", generateTypeGuards: true },
+      { output, typesModule },
+    );
+    expect(statSync(file).mtimeMs).toBeGreaterThan(0);
+  });
+
+  test("deletes modules a multi-file output no longer produces", () => {
+    const config: Partial<Config> = {
+      output: "enums",
+      outputStrategy: "schema",
+    };
+    run(config, {
+      typesModule: [
+        "export type Pet = { kind?: 'cat' | 'dog' };",
+        "export type Owner = { tier?: 'free' | 'pro' };",
+      ].join("\n"),
+    });
+    writeFileSync(join(dir, "enums", "custom.ts"), "export {}");
+    expect(readdirSync(join(dir, "enums")).sort()).toEqual([
+      "custom.ts",
+      "index.ts",
+      "owner.ts",
+      "pet.ts",
+    ]);
+
+    run(config, {
+      typesModule: "export type Pet = { kind?: 'cat' | 'dog' };",
+    });
+
+    expect(readdirSync(join(dir, "enums")).sort()).toEqual([
+      "custom.ts",
+      "index.ts",
+      "pet.ts",
+    ]);
+  });
+
+  test("passes failures to onError instead of logging them", () => {
+    const onError = vi.fn();
+
+    run({ output: "enums.gen", onError });
+
+    expect(onError).toHaveBeenCalledWith(expect.any(MissingInputError));
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
+
+describe("with openapi-ts", () => {
+  let dir: string;
+
+  const SPEC = `openapi: 3.0.0
+info: { title: Jobs, version: "1" }
+paths:
+  /jobs:
+    post:
+      operationId: createJob
+      parameters:
+        - name: sort-order
+          in: query
+          schema: { type: string, enum: [asc, desc] }
+      responses:
+        "200":
+          description: Created
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  state: { type: string, enum: [queued, done] }
+        default:
+          description: Failed
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  code: { type: string, enum: [e1, e2] }
+components:
+  schemas:
+    HTTPStatus: { type: string, enum: [ok, fail] }
+    pet_store-item:
+      type: object
+      properties:
+        tags:
+          type: array
+          nullable: true
+          items: { type: string, enum: [a, b] }
+        labels:
+          type: object
+          additionalProperties: { type: string, enum: [red, blue] }
+`;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "enum-arrays-openapi-ts-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("emits type checks that compile against the spec-sourced types", async () => {
+    const clientPath = join(dir, "client");
+    writeFileSync(join(dir, "openapi.yaml"), SPEC);
+
+    await createClient({
+      input: join(dir, "openapi.yaml"),
+      output: clientPath,
+      plugins: [
+        "@hey-api/typescript",
+        defineConfig({ generateTypeChecks: true, logger: "silent" }),
+      ],
+      logs: { file: false, level: "silent" },
+    });
+
+    const enumsFile = join(clientPath, "enums.gen.ts");
+    const content = readFileSync(enumsFile, "utf-8");
+    expect(content).toContain("EnumArraysSourceTypes.HttpStatus");
+    expect(content).toContain("EnumArraysSourceTypes.CreateJobErrors");
+
+    const program = ts.createProgram([enumsFile], {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2022,
+      lib: ["lib.es2022.d.ts"],
+      types: [],
+    });
+    const diagnostics = ts
+      .getPreEmitDiagnostics(program)
+      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+    expect(diagnostics).toEqual([]);
+  });
+});
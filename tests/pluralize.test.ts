@@ -0,0 +1,53 @@
+import { describe, expect, test } from "vitest";
+import { Pluralizer } from "../src/pluralize";
+
+describe("Pluralizer", () => {
+  const pluralizer = new Pluralizer();
+
+  describe("pluralize", () => {
+    test.each([
+      ["type", "types"],
+      ["status", "statuses"],
+      ["box", "boxes"],
+      ["match", "matches"],
+      ["wish", "wishes"],
+      ["category", "categories"],
+      ["day", "days"],
+      ["person", "people"],
+      ["child", "children"],
+      ["criterion", "criteria"],
+      ["index", "indices"],
+      ["hero", "heroes"],
+      ["metadata", "metadata"],
+      ["series", "series"],
+      ["tags", "tags"],
+      ["types", "types"],
+    ])("%s -> %s", (singular, plural) => {
+      expect(pluralizer.pluralize(singular)).toBe(plural);
+    });
+
+    test("preserves capitalisation", () => {
+      expect(pluralizer.pluralize("Status")).toBe("Statuses");
+      expect(pluralizer.pluralize("Person")).toBe("People");
+      expect(pluralizer.pluralize("URL")).toBe("URLs");
+    });
+  });
+
+  describe("custom rules", () => {
+    const custom = new Pluralizer({
+      irregular: { cactus: "cacti" },
+      uncountable: ["Config"],
+    });
+
+    test("applies custom irregular and uncountable words", () => {
+      expect(custom.pluralize("Cactus")).toBe("Cacti");
+      expect(custom.pluralize("config")).toBe("config");
+      expect(custom.isUncountable("CONFIG")).toBe(true);
+    });
+
+    test("reports words with custom rules", () => {
+      expect(custom.hasCustomRule("cactus")).toBe(true);
+      expect(custom.hasCustomRule("person")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,506 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient, type IR } from "@hey-api/openapi-ts";
+import { describe, expect, test } from "vitest";
+import { EnumParser } from "../src/parser";
+import { SpecEnumParser } from "../src/spec-parser";
+
+const SPEC = `openapi: 3.0.0
+info: { title: Jobs, version: "1" }
+paths:
+  /jobs:
+    post:
+      operationId: createJob
+      parameters:
+        - $ref: "#/components/parameters/page"
+        - name: sort-order
+          in: query
+          schema: { type: string, enum: [asc, desc] }
+        - name: X-Mode
+          in: header
+          schema: { type: string, enum: [fast, slow] }
+      requestBody:
+        $ref: "#/components/requestBodies/job_input"
+      responses:
+        "200":
+          description: Created
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  state: { type: string, enum: [queued, done] }
+        "404":
+          description: Missing
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  reason: { type: string, enum: [gone, never] }
+        default:
+          description: Failed
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  code: { type: string, enum: [e1, e2] }
+  /jobs/{id}/run-now:
+    get:
+      responses:
+        "200":
+          description: Started
+          content:
+            application/json:
+              schema: { type: string, enum: [x, y] }
+components:
+  parameters:
+    page:
+      name: page
+      in: query
+      schema: { type: string, enum: [first, last] }
+  requestBodies:
+    job_input:
+      content:
+        application/json:
+          schema:
+            type: object
+            properties:
+              priority: { type: string, enum: [low, high] }
+  schemas:
+    HTTPStatus: { type: string, enum: [ok, fail] }
+    Error: { type: string, enum: [fatal, minor] }
+    Page: { type: string, enum: [p1, p2] }
+    CreateJobData: { type: string, enum: [d1, d2] }
+    pet_store-item:
+      type: object
+      properties:
+        status: { type: string, enum: ["on", "off"] }
+        labels:
+          type: object
+          additionalProperties: { type: string, enum: [red, blue] }
+`;
+
+const stringEnum = (...values: string[]): IR.SchemaObject => ({
+  type: "enum",
+  items: values.map((value) => ({ const: value, type: "string" })),
+});
+
+describe("SpecEnumParser", () => {
+  const parser = new SpecEnumParser();
+
+  describe("parseEnumsFromSpec", () => {
+    test("extracts standalone and property enums from component schemas", () => {
+      const ir: IR.Model = {
+        components: {
+          schemas: {
+            PetStatus: stringEnum("available", "pending", "sold"),
+            Pet: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                kind: stringEnum("cat", "dog"),
+                owner: {
+                  type: "object",
+                  properties: {
+                    tier: stringEnum("free", "pro"),
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result).toHaveLength(3);
+      expect(
+        result.some(
+          (e) =>
+            e.values.join(",") === "available,pending,sold" &&
+            e.originalTypePath === "export type PetStatus",
+        ),
+      ).toBe(true);
+      expect(
+        result.some(
+          (e) =>
+            e.values.join(",") === "cat,dog" &&
+            e.originalTypePath === "Pet.kind",
+        ),
+      ).toBe(true);
+      expect(
+        result.some(
+          (e) =>
+            e.values.join(",") === "free,pro" &&
+            e.originalTypePath === "Pet.owner.tier",
+        ),
+      ).toBe(true);
+    });
+
+    test("extracts enums from array items and compositions", () => {
+      const ir: IR.Model = {
+        components: {
+          schemas: {
+            Config: {
+              type: "object",
+              properties: {
+                tags: {
+                  type: "array",
+                  items: [stringEnum("tag1", "tag2", "tag3")],
+                },
+                mode: {
+                  items: [stringEnum("dev", "prod"), { type: "null" }],
+                  logicalOperator: "or",
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toEqual({
+        name: expect.any(String),
+        values: ["tag1", "tag2", "tag3"],
+        originalTypePath: "Config.tags",
+        valueKind: "string",
+      });
+      expect(result[1].originalTypePath).toBe("Config.mode");
+      expect(result[1].values).toEqual(["dev", "prod"]);
+    });
+
+    test("does not follow $ref schemas", () => {
+      const ir: IR.Model = {
+        components: {
+          schemas: {
+            Status: stringEnum("active", "inactive"),
+            User: {
+              type: "object",
+              properties: {
+                status: { $ref: "#/components/schemas/Status" },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].originalTypePath).toBe("export type Status");
+    });
+
+    test("extracts enums from operation parameters, bodies and responses", () => {
+      const ir: IR.Model = {
+        paths: {
+          "/api/resources": {
+            get: {
+              id: "getV1Resources",
+              method: "get",
+              path: "/api/resources",
+              tags: ["resources", "admin"],
+              parameters: {
+                query: {
+                  sortOrder: {
+                    explode: true,
+                    location: "query",
+                    name: "sortOrder",
+                    schema: stringEnum("asc", "desc"),
+                    style: "form",
+                  },
+                },
+                header: {
+                  "X-Format": {
+                    explode: false,
+                    location: "header",
+                    name: "X-Format",
+                    schema: stringEnum("compact", "full"),
+                    style: "simple",
+                  },
+                },
+              },
+              responses: {
+                "200": {
+                  mediaType: "application/json",
+                  schema: {
+                    type: "object",
+                    properties: {
+                      state: stringEnum("ready", "busy"),
+                    },
+                  },
+                },
+              },
+            },
+            post: {
+              id: "postV1Resources",
+              method: "post",
+              path: "/api/resources",
+              body: {
+                mediaType: "application/json",
+                schema: {
+                  type: "object",
+                  properties: {
+                    type: stringEnum("methodX", "methodY"),
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result.map((e) => e.originalTypePath)).toEqual([
+        "GetV1ResourcesData.headers.X-Format",
+        "GetV1ResourcesData.query.sortOrder",
+        "GetV1ResourcesResponses.200.state",
+        "PostV1ResourcesData.body.type",
+      ]);
+      expect(result[0]).toMatchObject({
+        operationId: "getV1Resources",
+        tags: ["resources", "admin"],
+      });
+      expect(result[3].operationId).toBe("postV1Resources");
+      expect(result[3]).not.toHaveProperty("tags");
+    });
+
+    test("splits responses into Responses and Errors types", () => {
+      const response = (
+        state: string,
+        description?: string,
+      ): IR.ResponseObject => ({
+        mediaType: "application/json",
+        schema: {
+          type: "object",
+          description,
+          properties: { [state]: stringEnum("a", "b") },
+        },
+      });
+      const ir: IR.Model = {
+        paths: {
+          "/jobs": {
+            get: {
+              id: "listJobs",
+              method: "get",
+              path: "/jobs",
+              responses: {
+                "200": response("ok"),
+                "302": response("moved"),
+                "4XX": response("client"),
+                "503": response("server"),
+                default: response("fallback", "Success or problem details"),
+              },
+            },
+            post: {
+              id: "createJob",
+              method: "post",
+              path: "/jobs",
+              responses: { default: response("fallback") },
+            },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result.map((e) => e.originalTypePath)).toEqual([
+        "ListJobsResponses.200.ok",
+        "ListJobsResponses.default.fallback",
+        "ListJobsErrors.503.server",
+        "ListJobsErrors.4XX.client",
+        "ListJobsErrors.default.fallback",
+        "CreateJobResponses.default.fallback",
+      ]);
+    });
+
+    test("names component types the way @hey-api/typescript does", () => {
+      const ir: IR.Model = {
+        components: {
+          schemas: {
+            HTTPStatus: stringEnum("ok", "fail"),
+            Error: stringEnum("fatal", "minor"),
+            Page: stringEnum("p1", "p2"),
+            "pet_store-item": {
+              type: "object",
+              properties: {
+                labels: {
+                  type: "object",
+                  additionalProperties: stringEnum("red", "blue"),
+                },
+              },
+            },
+          },
+          parameters: {
+            page: {
+              explode: true,
+              location: "query",
+              name: "page",
+              schema: stringEnum("first", "last"),
+              style: "form",
+            },
+          },
+          requestBodies: {
+            job_input: {
+              schema: {
+                type: "object",
+                properties: { priority: stringEnum("low", "high") },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result.map((e) => e.originalTypePath)).toEqual([
+        "export type HttpStatus",
+        "export type _Error",
+        "export type Page",
+        "PetStoreItem.labels",
+        "export type Page2",
+        "JobInput.priority",
+      ]);
+    });
+
+    test("records the paths of the types openapi-ts generates", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "enum-arrays-spec-"));
+      let context;
+      try {
+        writeFileSync(join(dir, "openapi.yaml"), SPEC);
+        [context] = await createClient({
+          input: join(dir, "openapi.yaml"),
+          output: { clean: false, path: join(dir, "client") },
+          dryRun: true,
+          plugins: ["@hey-api/typescript"],
+          logs: { file: false, level: "silent" },
+        });
+      } finally {
+        rmSync(dir, { force: true, recursive: true });
+      }
+      if (!context || !("ir" in context)) {
+        throw new Error("openapi-ts produced no context");
+      }
+      const typesFile = context.file({ id: "types" })?.toString() ?? "";
+
+      const specPaths = parser
+        .parseEnumsFromSpec(context.ir)
+        .map((e) => e.originalTypePath);
+      const typesPaths = new EnumParser()
+        .parseEnumsFromTypeFile(typesFile)
+        .map((e) => e.originalTypePath);
+
+      expect(specPaths.sort()).toEqual(typesPaths.sort());
+      expect(specPaths).toContain("CreateJobErrors.default.code");
+      expect(specPaths).toContain("CreateJobData2.query.page");
+      expect(specPaths).toContain("export type Page2");
+    });
+
+    test("extracts numeric, boolean and nullable enums", () => {
+      const ir: IR.Model = {
+        components: {
+          schemas: {
+            Priority: {
+              type: "enum",
+              items: [1, 2, 3].map((value) => ({
+                const: value,
+                type: "integer",
+              })),
+            },
+            Flag: {
+              type: "enum",
+              items: [
+                { const: true, type: "boolean" },
+                { const: false, type: "boolean" },
+              ],
+            },
+            Level: {
+              type: "enum",
+              items: [
+                { const: "low", type: "string" },
+                { const: null, type: "null" },
+              ],
+            },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result.map((e) => [e.values, e.valueKind])).toEqual([
+        [[1, 2, 3], "number"],
+        [[true, false], "boolean"],
+        [["low", null], "mixed"],
+      ]);
+    });
+
+    test("carries descriptions, deprecation and per-value metadata", () => {
+      const ir: IR.Model = {
+        components: {
+          schemas: {
+            Severity: {
+              type: "enum",
+              description: "How urgent an incident is",
+              deprecated: true,
+              items: [
+                {
+                  const: 1,
+                  type: "integer",
+                  title: "LOW",
+                  description: "Can wait",
+                },
+                { const: 2, type: "integer", title: "HIGH" },
+                { const: 3, type: "integer" },
+              ],
+            },
+            Ticket: {
+              type: "object",
+              properties: {
+                state: {
+                  description: "Workflow state",
+                  logicalOperator: "or",
+                  items: [stringEnum("open", "closed"), { type: "null" }],
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const [severity, state] = parser.parseEnumsFromSpec(ir);
+
+      expect(severity).toMatchObject({
+        description: "How urgent an incident is",
+        deprecated: true,
+        valueMetadata: [
+          { value: 1, name: "LOW", description: "Can wait" },
+          { value: 2, name: "HIGH", description: undefined },
+        ],
+      });
+      expect(state.description).toBe("Workflow state");
+      expect(state).not.toHaveProperty("deprecated");
+      expect(state).not.toHaveProperty("valueMetadata");
+    });
+
+    test("ignores schemas without enum members", () => {
+      const ir: IR.Model = {
+        components: {
+          schemas: {
+            Name: { type: "string" },
+            Empty: { type: "enum", items: [] },
+            OnlyNull: { type: "enum", items: [{ const: null, type: "null" }] },
+          },
+        },
+      };
+
+      const result = parser.parseEnumsFromSpec(ir);
+
+      expect(result).toHaveLength(0);
+    });
+  });
+});